@@ -1,27 +1,17 @@
-import { NextRequest, NextResponse } from "next/server";
-
-const API_BASE_URL = process.env.API_BASE_URL || "http://localhost:8000/api/v1";
+import { NextRequest } from "next/server";
+import { sessionResponse } from "@/lib/cookies";
+import { fetchUpstream, handleRoute } from "@/lib/upstream";
 
 export async function POST(request: NextRequest) {
-    try {
-        const body = await request.json();
-
-        const response = await fetch(`${API_BASE_URL}/login`, {
+    return handleRoute(request, "Login", async () => {
+        const { status, data } = await fetchUpstream(request, {
             method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-            },
-            body: JSON.stringify(body),
+            path: "/login",
+            forwardBody: true,
+            auth: false,
         });
 
-        const data = await response.json();
-
-        return NextResponse.json(data, { status: response.status });
-    } catch (error) {
-        console.error("Login API error:", error);
-        return NextResponse.json(
-            { success: false, message: "Internal server error" },
-            { status: 500 }
-        );
-    }
+        // The token goes into an HttpOnly cookie rather than back to the browser's JS
+        return sessionResponse(data, status);
+    });
 }
@@ -1,20 +1,24 @@
-import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
+import { REFRESH_TOKEN_KEY, clearSessionCookies } from "@/lib/cookies";
+import { handleRoute, proxyRequest } from "@/lib/upstream";
 
-export async function POST() {
-    try {
-        const cookieStore = await cookies();
-        cookieStore.delete("access_token");
+/**
+ * Revokes the refresh token upstream, so a copy of it stops working, then clears the cookies
+ */
+export async function POST(request: NextRequest) {
+    const refreshToken = request.cookies.get(REFRESH_TOKEN_KEY)?.value;
+    const response = refreshToken
+        ? await proxyRequest(request, "Logout", {
+              method: "POST",
+              path: "/logout",
+              body: { refreshToken },
+              auth: false,
+          })
+        : await handleRoute(request, "Logout", async () =>
+              NextResponse.json({ success: true, message: "Logged out successfully" }, { status: 200 })
+          );
 
-        return NextResponse.json(
-            { success: true, message: "Logged out successfully" },
-            { status: 200 }
-        );
-    } catch (error) {
-        console.error("Logout API error:", error);
-        return NextResponse.json(
-            { success: false, message: "Internal server error" },
-            { status: 500 }
-        );
-    }
+    // HttpOnly, so only the server can clear them - even if the revoke failed
+    clearSessionCookies(response);
+    return response;
 }
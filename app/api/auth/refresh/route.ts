@@ -0,0 +1,34 @@
+import { NextRequest } from "next/server";
+import { REFRESH_TOKEN_KEY, clearSessionCookies, sessionResponse } from "@/lib/cookies";
+import { errorResponse, fetchUpstream, handleRoute } from "@/lib/upstream";
+
+// Also clears a leftover access cookie, so the proxy stops treating this as a session
+function sessionExpired(message = "Session expired. Please login again.") {
+    const response = errorResponse(401, "UNAUTHORIZED", message);
+    clearSessionCookies(response);
+    return response;
+}
+
+/**
+ * Trades the refresh-token cookie for a new access token (and a rotated refresh token)
+ */
+export async function POST(request: NextRequest) {
+    return handleRoute(request, "Refresh", async () => {
+        const refreshToken = request.cookies.get(REFRESH_TOKEN_KEY)?.value;
+        if (!refreshToken) return sessionExpired();
+
+        const { status, data } = await fetchUpstream(request, {
+            method: "POST",
+            path: "/refresh-token",
+            body: { refreshToken },
+            auth: false,
+        });
+
+        // A rejected refresh token won't work next time either, so end the session
+        if (status === 401 || status === 403) {
+            return sessionExpired(typeof data.message === "string" ? data.message : undefined);
+        }
+
+        return sessionResponse(data, status);
+    });
+}
@@ -0,0 +1,10 @@
+import { NextRequest } from "next/server";
+import { proxyRequest } from "@/lib/upstream";
+
+/**
+ * Exchanges the HttpOnly session cookie for a short-lived, single-use ticket
+ * that the browser can hand to the socket server during the handshake
+ */
+export async function POST(request: NextRequest) {
+    return proxyRequest(request, "Socket ticket", { method: "POST", path: "/socket-ticket" });
+}
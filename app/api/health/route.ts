@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ProxyError, errorResponse, fetchUpstream, handleRoute } from "@/lib/upstream";
+
+// Short, so the client can tell "asleep" from "slow" and keep polling
+const HEALTH_TIMEOUT_MS = 5000;
+
+/**
+ * Reports whether the backend is up, without needing a session
+ */
+export async function GET(request: NextRequest) {
+    return handleRoute(request, "Health", async () => {
+        try {
+            const { status } = await fetchUpstream(request, {
+                path: "/health",
+                auth: false,
+                timeoutMs: HEALTH_TIMEOUT_MS,
+            });
+            // Any answer from the backend itself - even a 404 - means it's running
+            if (status < 500) {
+                return NextResponse.json({ success: true, status: "healthy" });
+            }
+        } catch (error) {
+            if (!(error instanceof ProxyError)) throw error;
+        }
+        return errorResponse(503, "BACKEND_WAKING", "The server is starting up");
+    });
+}
@@ -0,0 +1,14 @@
+import { NextRequest } from "next/server";
+import { proxyRequest } from "@/lib/upstream";
+
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    return proxyRequest(request, "Update notification", {
+        method: "PATCH",
+        path: `/notifications/${id}`,
+        forwardBody: true,
+    });
+}
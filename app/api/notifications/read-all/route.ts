@@ -0,0 +1,9 @@
+import { NextRequest } from "next/server";
+import { proxyRequest } from "@/lib/upstream";
+
+export async function POST(request: NextRequest) {
+    return proxyRequest(request, "Mark all notifications read", {
+        method: "POST",
+        path: "/notifications/read-all",
+    });
+}
@@ -0,0 +1,15 @@
+import { NextRequest } from "next/server";
+import { proxyRequest } from "@/lib/upstream";
+
+export async function GET(request: NextRequest) {
+    const { searchParams } = request.nextUrl;
+    const limit = searchParams.get("limit") || "20";
+    const cursor = searchParams.get("cursor");
+    const unread = searchParams.get("unread");
+
+    const query = new URLSearchParams({ limit });
+    if (cursor) query.append("cursor", cursor);
+    if (unread) query.append("unread", unread);
+
+    return proxyRequest(request, "Notifications", { path: "/notifications", query });
+}
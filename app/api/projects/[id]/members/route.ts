@@ -1,48 +1,14 @@
-import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
-
-const API_BASE_URL = process.env.API_BASE_URL || "http://localhost:8000/api/v1";
+import { NextRequest } from "next/server";
+import { proxyRequest } from "@/lib/upstream";
 
 export async function POST(
     request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
-    try {
-        const { id } = await params;
-        const body = await request.json();
-
-        // Get token from Authorization header or cookies
-        let token = request.headers.get("Authorization")?.replace("Bearer ", "");
-
-        if (!token) {
-            const cookieStore = await cookies();
-            token = cookieStore.get("access_token")?.value;
-        }
-
-        if (!token) {
-            return NextResponse.json(
-                { success: false, message: "Access denied. No token provided." },
-                { status: 401 }
-            );
-        }
-
-        const response = await fetch(`${API_BASE_URL}/projects/${id}/members`, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                Authorization: `Bearer ${token}`,
-            },
-            body: JSON.stringify(body),
-        });
-
-        const data = await response.json();
-
-        return NextResponse.json(data, { status: response.status });
-    } catch (error) {
-        console.error("Add member API error:", error);
-        return NextResponse.json(
-            { success: false, message: "Internal server error" },
-            { status: 500 }
-        );
-    }
+    const { id } = await params;
+    return proxyRequest(request, "Add member", {
+        method: "POST",
+        path: `/projects/${id}/members`,
+        forwardBody: true,
+    });
 }
@@ -1,132 +1,33 @@
-import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
-
-const API_BASE_URL = process.env.API_BASE_URL || "http://localhost:8000/api/v1";
+import { NextRequest } from "next/server";
+import { proxyRequest } from "@/lib/upstream";
 
 export async function GET(
     request: NextRequest,
     { params }: { params: Promise<{ id: string; taskId: string }> }
 ) {
-    try {
-        const { id: projectId, taskId } = await params;
-
-        let token = request.headers.get("Authorization")?.replace("Bearer ", "");
-        if (!token) {
-            const cookieStore = await cookies();
-            token = cookieStore.get("access_token")?.value;
-        }
-
-        if (!token) {
-            return NextResponse.json(
-                { success: false, message: "Access denied. No token provided." },
-                { status: 401 }
-            );
-        }
-
-        const response = await fetch(
-            `${API_BASE_URL}/projects/${projectId}/tasks/${taskId}`,
-            {
-                method: "GET",
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${token}`,
-                },
-            }
-        );
-
-        const data = await response.json();
-        return NextResponse.json(data, { status: response.status });
-    } catch (error) {
-        console.error("Get task API error:", error);
-        return NextResponse.json(
-            { success: false, message: "Internal server error" },
-            { status: 500 }
-        );
-    }
+    const { id: projectId, taskId } = await params;
+    return proxyRequest(request, "Get task", { path: `/projects/${projectId}/tasks/${taskId}` });
 }
 
 export async function PATCH(
     request: NextRequest,
     { params }: { params: Promise<{ id: string; taskId: string }> }
 ) {
-    try {
-        const { id: projectId, taskId } = await params;
-        const body = await request.json();
-
-        let token = request.headers.get("Authorization")?.replace("Bearer ", "");
-        if (!token) {
-            const cookieStore = await cookies();
-            token = cookieStore.get("access_token")?.value;
-        }
-
-        if (!token) {
-            return NextResponse.json(
-                { success: false, message: "Access denied. No token provided." },
-                { status: 401 }
-            );
-        }
-
-        const response = await fetch(
-            `${API_BASE_URL}/projects/${projectId}/tasks/${taskId}`,
-            {
-                method: "PATCH",
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${token}`,
-                },
-                body: JSON.stringify(body),
-            }
-        );
-
-        const data = await response.json();
-        return NextResponse.json(data, { status: response.status });
-    } catch (error) {
-        console.error("Update task API error:", error);
-        return NextResponse.json(
-            { success: false, message: "Internal server error" },
-            { status: 500 }
-        );
-    }
+    const { id: projectId, taskId } = await params;
+    return proxyRequest(request, "Update task", {
+        method: "PATCH",
+        path: `/projects/${projectId}/tasks/${taskId}`,
+        forwardBody: true,
+    });
 }
 
 export async function DELETE(
     request: NextRequest,
     { params }: { params: Promise<{ id: string; taskId: string }> }
 ) {
-    try {
-        const { id: projectId, taskId } = await params;
-
-        let token = request.headers.get("Authorization")?.replace("Bearer ", "");
-        if (!token) {
-            const cookieStore = await cookies();
-            token = cookieStore.get("access_token")?.value;
-        }
-
-        if (!token) {
-            return NextResponse.json(
-                { success: false, message: "Access denied. No token provided." },
-                { status: 401 }
-            );
-        }
-
-        const response = await fetch(
-            `${API_BASE_URL}/projects/${projectId}/tasks/${taskId}`,
-            {
-                method: "DELETE",
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${token}`,
-                },
-            }
-        );
-
-        const data = await response.json();
-        return NextResponse.json(data, { status: response.status });
-    } catch (error) {
-        console.error("Delete task API error:", error);
-        return NextResponse.json(
-            { success: false, message: "Internal server error" },
-            { status: 500 }
-        );
-    }
+    const { id: projectId, taskId } = await params;
+    return proxyRequest(request, "Delete task", {
+        method: "DELETE",
+        path: `/projects/${projectId}/tasks/${taskId}`,
+    });
 }
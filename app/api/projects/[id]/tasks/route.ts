@@ -1,96 +1,36 @@
-import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
-
-const API_BASE_URL = process.env.API_BASE_URL || "http://localhost:8000/api/v1";
+import { NextRequest } from "next/server";
+import { TASK_FILTER_PARAMS } from "@/lib/task-filters";
+import { proxyRequest } from "@/lib/upstream";
 
 export async function GET(
     request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
-    try {
-        const { id: projectId } = await params;
-        const { searchParams } = new URL(request.url);
-        const limit = searchParams.get("limit") || "20";
-        const cursor = searchParams.get("cursor");
-
-        let token = request.headers.get("Authorization")?.replace("Bearer ", "");
-        if (!token) {
-            const cookieStore = await cookies();
-            token = cookieStore.get("access_token")?.value;
-        }
-
-        if (!token) {
-            return NextResponse.json(
-                { success: false, message: "Access denied. No token provided." },
-                { status: 401 }
-            );
-        }
-
-        const queryParams = new URLSearchParams({ limit });
-        if (cursor) queryParams.append("cursor", cursor);
-
-        const response = await fetch(
-            `${API_BASE_URL}/projects/${projectId}/tasks?${queryParams}`,
-            {
-                method: "GET",
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${token}`,
-                },
-            }
-        );
-
-        const data = await response.json();
-        return NextResponse.json(data, { status: response.status });
-    } catch (error) {
-        console.error("Tasks list API error:", error);
-        return NextResponse.json(
-            { success: false, message: "Internal server error" },
-            { status: 500 }
-        );
+    const { id: projectId } = await params;
+    const { searchParams } = request.nextUrl;
+    const limit = searchParams.get("limit") || "20";
+    const cursor = searchParams.get("cursor");
+
+    const query = new URLSearchParams({ limit });
+    if (cursor) query.append("cursor", cursor);
+
+    // Forward filter & sort params (status, assignee, createdBy, q, date ranges, sortBy, sortOrder)
+    for (const key of TASK_FILTER_PARAMS) {
+        const value = searchParams.get(key);
+        if (value) query.append(key, value);
     }
+
+    return proxyRequest(request, "Tasks list", { path: `/projects/${projectId}/tasks`, query });
 }
 
 export async function POST(
     request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
-    try {
-        const { id: projectId } = await params;
-        const body = await request.json();
-
-        let token = request.headers.get("Authorization")?.replace("Bearer ", "");
-        if (!token) {
-            const cookieStore = await cookies();
-            token = cookieStore.get("access_token")?.value;
-        }
-
-        if (!token) {
-            return NextResponse.json(
-                { success: false, message: "Access denied. No token provided." },
-                { status: 401 }
-            );
-        }
-
-        const response = await fetch(
-            `${API_BASE_URL}/projects/${projectId}/tasks`,
-            {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${token}`,
-                },
-                body: JSON.stringify(body),
-            }
-        );
-
-        const data = await response.json();
-        return NextResponse.json(data, { status: response.status });
-    } catch (error) {
-        console.error("Create task API error:", error);
-        return NextResponse.json(
-            { success: false, message: "Internal server error" },
-            { status: 500 }
-        );
-    }
+    const { id: projectId } = await params;
+    return proxyRequest(request, "Create task", {
+        method: "POST",
+        path: `/projects/${projectId}/tasks`,
+        forwardBody: true,
+    });
 }
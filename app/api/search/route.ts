@@ -1,61 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
-
-const API_BASE_URL = process.env.API_BASE_URL || "http://localhost:8000/api/v1";
+import { ProxyError, fetchUpstream, handleRoute } from "@/lib/upstream";
 
 export async function GET(request: NextRequest) {
-    try {
-        const { searchParams } = new URL(request.url);
-        const query = searchParams.get("q");
+    return handleRoute(request, "Search", async () => {
+        const { searchParams } = request.nextUrl;
+        const q = searchParams.get("q");
         const limit = searchParams.get("limit") || "10";
+        const priority = searchParams.get("priority");
 
-        if (!query) {
-            return NextResponse.json(
-                { success: false, message: "Search query is required" },
-                { status: 400 }
-            );
-        }
-
-        if (query.trim() === "") {
-            return NextResponse.json(
-                { success: false, message: "Search query cannot be empty" },
-                { status: 400 }
-            );
-        }
-
-        // Get token from Authorization header or cookies
-        let token = request.headers.get("Authorization")?.replace("Bearer ", "");
-
-        if (!token) {
-            const cookieStore = await cookies();
-            token = cookieStore.get("access_token")?.value;
+        if (!q) {
+            throw new ProxyError(400, "BAD_REQUEST", "Search query is required");
         }
 
-        if (!token) {
-            return NextResponse.json(
-                { success: false, message: "Access denied. No token provided." },
-                { status: 401 }
-            );
+        if (q.trim() === "") {
+            throw new ProxyError(400, "BAD_REQUEST", "Search query cannot be empty");
         }
 
-        const params = new URLSearchParams({ q: query, limit });
-
-        const response = await fetch(`${API_BASE_URL}/search?${params}`, {
-            method: "GET",
-            headers: {
-                "Content-Type": "application/json",
-                Authorization: `Bearer ${token}`,
-            },
-        });
-
-        const data = await response.json();
+        const query = new URLSearchParams({ q, limit });
+        if (priority) query.append("priority", priority);
 
-        return NextResponse.json(data, { status: response.status });
-    } catch (error) {
-        console.error("Search API error:", error);
-        return NextResponse.json(
-            { success: false, message: "Internal server error" },
-            { status: 500 }
-        );
-    }
+        const { status, data } = await fetchUpstream(request, { path: "/search", query });
+        return NextResponse.json(data, { status });
+    });
 }
@@ -1,93 +1,42 @@
 import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
-
-const API_BASE_URL = process.env.API_BASE_URL || "http://localhost:8000/api/v1";
+import { ProxyError, fetchUpstream, handleRoute, proxyRequest, readJsonBody } from "@/lib/upstream";
 
 export async function GET(
     request: NextRequest,
     { params }: { params: Promise<{ taskId: string }> }
 ) {
-    try {
-        const { taskId } = await params;
-        const { searchParams } = new URL(request.url);
-        const limit = searchParams.get("limit") || "20";
-        const cursor = searchParams.get("cursor");
-
-        let token = request.headers.get("Authorization")?.replace("Bearer ", "");
-        if (!token) {
-            const cookieStore = await cookies();
-            token = cookieStore.get("access_token")?.value;
-        }
-
-        if (!token) {
-            return NextResponse.json(
-                { success: false, message: "Access denied. No token provided." },
-                { status: 401 }
-            );
-        }
-
-        const queryParams = new URLSearchParams({ limit });
-        if (cursor) queryParams.append("cursor", cursor);
-
-        const response = await fetch(
-            `${API_BASE_URL}/tasks/${taskId}/comments?${queryParams}`,
-            {
-                method: "GET",
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${token}`,
-                },
-            }
-        );
-
-        const data = await response.json();
-        return NextResponse.json(data, { status: response.status });
-    } catch (error) {
-        console.error("Comments list API error:", error);
-        return NextResponse.json(
-            { success: false, message: "Internal server error" },
-            { status: 500 }
-        );
-    }
+    const { taskId } = await params;
+    const { searchParams } = request.nextUrl;
+    const limit = searchParams.get("limit") || "20";
+    const cursor = searchParams.get("cursor");
+    const parent = searchParams.get("parent");
+
+    const query = new URLSearchParams({ limit });
+    if (cursor) query.append("cursor", cursor);
+    // Only replies to this comment
+    if (parent) query.append("parent", parent);
+
+    return proxyRequest(request, "Comments list", { path: `/tasks/${taskId}/comments`, query });
 }
 
 export async function POST(
     request: NextRequest,
     { params }: { params: Promise<{ taskId: string }> }
 ) {
-    try {
+    return handleRoute(request, "Add comment", async () => {
         const { taskId } = await params;
-        const body = await request.json();
+        const body = await readJsonBody(request);
 
-        let token = request.headers.get("Authorization")?.replace("Bearer ", "");
-        if (!token) {
-            const cookieStore = await cookies();
-            token = cookieStore.get("access_token")?.value;
+        // Replies nest one level deep under a top-level comment
+        if (body.parent != null && typeof body.parent !== "string") {
+            throw new ProxyError(400, "BAD_REQUEST", "Invalid parent comment");
         }
 
-        if (!token) {
-            return NextResponse.json(
-                { success: false, message: "Access denied. No token provided." },
-                { status: 401 }
-            );
-        }
-
-        const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/comments`, {
+        const { status, data } = await fetchUpstream(request, {
             method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                Authorization: `Bearer ${token}`,
-            },
-            body: JSON.stringify(body),
+            path: `/tasks/${taskId}/comments`,
+            body,
         });
-
-        const data = await response.json();
-        return NextResponse.json(data, { status: response.status });
-    } catch (error) {
-        console.error("Add comment API error:", error);
-        return NextResponse.json(
-            { success: false, message: "Internal server error" },
-            { status: 500 }
-        );
-    }
+        return NextResponse.json(data, { status });
+    });
 }
@@ -14,8 +14,8 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { setAccessToken } from "@/lib/cookies";
 import { useAuth } from "@/context/auth-context";
+import { getSafeRedirect } from "@/lib/routes";
 
 export default function LoginPage() {
   const router = useRouter();
@@ -46,12 +46,12 @@ export default function LoginPage() {
         return;
       }
 
-      // Store token and user
-      setAccessToken(data.accessToken);
+      // The route stored the token in an HttpOnly cookie - we only keep the user
       login(data.user);
 
-      // Redirect to profile
-      router.push("/profile");
+      // Back to the page that sent us here (?next=), or the profile
+      const next = new URLSearchParams(window.location.search).get("next");
+      router.push(getSafeRedirect(next, window.location.origin, "/profile"));
     } catch {
       setError("An unexpected error occurred. Please try again.");
     } finally {
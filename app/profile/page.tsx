@@ -12,6 +12,8 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { DesktopNotificationSettings } from "@/components/desktop-notification-settings";
+import { getCurrentPath, getLoginUrl } from "@/lib/routes";
 
 interface ProfileResponse {
   success: boolean;
@@ -31,7 +33,7 @@ export default function ProfilePage() {
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
-      router.push("/login");
+      router.push(getLoginUrl(getCurrentPath()));
       return;
     }
 
@@ -85,7 +87,7 @@ export default function ProfilePage() {
     : displayUser.email[0].toUpperCase();
 
   return (
-    <div className="flex min-h-[calc(100vh-4rem)] items-center justify-center px-4 py-8">
+    <div className="flex min-h-[calc(100vh-4rem)] flex-col items-center justify-center gap-4 px-4 py-8">
       <Card className="w-full max-w-md">
         <CardHeader className="text-center">
           <div className="flex justify-center mb-4">
@@ -117,6 +119,8 @@ export default function ProfilePage() {
           </div>
         </CardContent>
       </Card>
+
+      <DesktopNotificationSettings userId={displayUser.id} />
     </div>
   );
 }
\ No newline at end of file
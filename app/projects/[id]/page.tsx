@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useState, useCallback, use, useRef } from "react";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { useFetch } from "@/hooks/useFetch";
 import { useAuth } from "@/context/auth-context";
@@ -18,18 +18,35 @@ import {
   Users,
   ListTodo,
   FolderOpen,
+  List,
+  SquareKanban,
+  CalendarDays,
 } from "lucide-react";
 import type { Project, Member } from "@/components/project-card";
 import { TaskCard, Task } from "@/components/task-card";
 import { CreateTaskDialog } from "@/components/create-task-dialog";
 import { TaskDetailSheet } from "@/components/task-detail-sheet";
-import { useTaskUpdates, useProjectUpdates } from "@/hooks/useSocket";
+import { TaskBoard } from "@/components/task-board";
+import { TaskFiltersPopover } from "@/components/task-filters-popover";
+import { TaskCalendar } from "@/components/task-calendar";
+import {
+  useTaskUpdates,
+  useProjectUpdates,
+  usePresence,
+  useSocketReconnect,
+} from "@/hooks/useSocket";
+import { PresenceAvatars } from "@/components/presence-avatars";
 
 interface ProjectDetailResponse {
   success: boolean;
   project: Project;
 }
 
+interface TaskResponse {
+  success: boolean;
+  task: Task;
+}
+
 interface TasksResponse {
   success: boolean;
   tasks: Task[];
@@ -39,7 +56,20 @@ interface TasksResponse {
   };
 }
 
-import { ProjectStatus } from "@/lib/enums";
+import { ProjectStatus, TaskStatus } from "@/lib/enums";
+import {
+  TaskFilters,
+  parseTaskFilters,
+  applyTaskFilters,
+  countActiveTaskFilters,
+  matchesTaskFilters,
+  compareTasks,
+} from "@/lib/task-filters";
+import { addDays, daysBetween, toDayKey } from "@/lib/task-dates";
+import { upsertById } from "@/lib/mutations";
+import { getMutationTarget, getOfflineId } from "@/lib/offline";
+import { getCurrentPath, getLoginUrl } from "@/lib/routes";
+import { useMutationQueued, useOfflineSynced } from "@/hooks/useOffline";
 
 // ... existing imports ...
 
@@ -57,6 +87,36 @@ function getInitials(name: string, email: string): string {
   return email[0].toUpperCase();
 }
 
+// Local copy of a task change queued offline - the request body sends the assignee as an ID
+function applyTaskChanges(task: Task, changes: Record<string, unknown>, members: Member[]): Task {
+  const { assignee, ...rest } = changes;
+  const next = { ...task, ...rest } as Task;
+  if (assignee !== undefined) {
+    const member = members.find((m) => m._id === assignee);
+    next.assignee = member ? { _id: member._id, name: member.name, email: member.email } : undefined;
+  }
+  return next;
+}
+
+type TaskView = "list" | "board" | "calendar";
+
+const TASK_VIEWS: TaskView[] = ["list", "board", "calendar"];
+
+// Task view preference is remembered per project in localStorage
+function getViewStorageKey(projectId: string): string {
+  return `project-view:${projectId}`;
+}
+
+function loadTaskView(projectId: string): TaskView {
+  if (typeof window === "undefined") return "list";
+  const stored = localStorage.getItem(getViewStorageKey(projectId)) as TaskView | null;
+  return stored && TASK_VIEWS.includes(stored) ? stored : "list";
+}
+
+function saveTaskView(projectId: string, view: TaskView): void {
+  localStorage.setItem(getViewStorageKey(projectId), view);
+}
+
 import {
   Dialog,
   DialogContent,
@@ -311,19 +371,26 @@ export default function ProjectDetailPage({
 }) {
   const { id } = use(params);
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { isAuthenticated, isLoading: authLoading, user } = useAuth();
   const { fetchData } = useFetch();
 
+  // Deep link params, e.g. /projects/{id}?task={taskId}&comment={commentId}
+  const taskParam = searchParams.get("task");
+  const commentParam = searchParams.get("comment");
+
   const [project, setProject] = useState<Project | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
-  const [filteredTasks, setFilteredTasks] = useState<Task[]>([]);
-  const [searchQuery, setSearchQuery] = useState("");
+  const [filters, setFilters] = useState<TaskFilters>(() =>
+    parseTaskFilters(new URLSearchParams(searchParams.toString()))
+  );
+  const [searchInput, setSearchInput] = useState(() => searchParams.get("q") || "");
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingTasks, setIsLoadingTasks] = useState(true);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
-  const [isSheetOpen, setIsSheetOpen] = useState(false);
   const [cursor, setCursor] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
+  const [view, setView] = useState<TaskView>(() => loadTaskView(id));
   
   // Edit states
   const [isEditingName, setIsEditingName] = useState(false);
@@ -331,7 +398,8 @@ export default function ProjectDetailPage({
   const [isEditingDesc, setIsEditingDesc] = useState(false);
   const [editingDesc, setEditingDesc] = useState("");
 
-  const locallyCreatedTaskIds = useRef<Set<string>>(new Set());
+  // Last ?task= value we looked up, so a pending lookup isn't repeated
+  const handledTaskParam = useRef<string | null>(null);
 
   const canManage = project ? (user?.id === project.createdBy._id || user?.role === "ADMIN") : false;
 
@@ -367,105 +435,281 @@ export default function ProjectDetailPage({
     }
   };
 
-  const loadTasks = useCallback(
+  const fetchTasks = useCallback(
     async (nextCursor: string | null = null) => {
       const params = new URLSearchParams({ limit: "20" });
       if (nextCursor) params.append("cursor", nextCursor);
+      applyTaskFilters(params, filters, user?.id);
 
-      const response = (await fetchData(
+      return (await fetchData(
         `/api/projects/${id}/tasks?${params}`
       )) as TasksResponse | null;
-
-      if (response?.success) {
-        if (nextCursor) {
-          setTasks((prev) => [...prev, ...response.tasks]);
-        } else {
-          setTasks(response.tasks);
-        }
-        setHasMore(response.pagination.hasMore);
-        setCursor(response.pagination.nextCursor);
-      }
-      setIsLoadingTasks(false);
     },
-    [fetchData, id]
+    [fetchData, id, filters, user?.id]
   );
 
+  const loadMoreTasks = async () => {
+    const response = await fetchTasks(cursor);
+    if (response?.success) {
+      setTasks((prev) => [...prev, ...response.tasks]);
+      setHasMore(response.pagination.hasMore);
+      setCursor(response.pagination.nextCursor);
+    }
+  };
+
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
-      router.push("/login");
+      router.push(getLoginUrl(getCurrentPath()));
       return;
     }
 
     if (isAuthenticated) {
       loadProject();
-      loadTasks();
     }
-  }, [authLoading, isAuthenticated, router, loadProject, loadTasks]);
+  }, [authLoading, isAuthenticated, router, loadProject]);
 
+  // Reload the first page whenever the filters change
   useEffect(() => {
-    if (searchQuery.trim() === "") {
-      setFilteredTasks(tasks);
+    if (!isAuthenticated) return;
+
+    let isStale = false;
+    fetchTasks().then((response) => {
+      if (isStale) return;
+      if (response?.success) {
+        setTasks(response.tasks);
+        setHasMore(response.pagination.hasMore);
+        setCursor(response.pagination.nextCursor);
+      }
+      setIsLoadingTasks(false);
+    });
+
+    return () => {
+      isStale = true;
+    };
+  }, [isAuthenticated, fetchTasks]);
+
+  // Debounce the search box into the server-side text filter
+  useEffect(() => {
+    if (searchInput === filters.q) return;
+
+    const timer = setTimeout(() => {
+      setFilters((prev) => ({ ...prev, q: searchInput }));
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [searchInput, filters.q]);
+
+  // Reflect filters in the URL, keeping unrelated params such as ?task=
+  useEffect(() => {
+    const query = applyTaskFilters(new URLSearchParams(window.location.search), filters);
+    const queryString = query.toString();
+    if (queryString === window.location.search.replace(/^\?/, "")) return;
+    window.history.replaceState(
+      null,
+      "",
+      `${window.location.pathname}${queryString ? `?${queryString}` : ""}`
+    );
+  }, [filters]);
+
+  const handleApplyFilters = (nextFilters: TaskFilters) => {
+    setIsLoadingTasks(true);
+    setFilters(nextFilters);
+  };
+
+  const hasActiveFilters = countActiveTaskFilters(filters) > 0 || filters.q.trim() !== "";
+
+  // The sheet is open whenever ?task= points at the selected task
+  const isSheetOpen = taskParam !== null && selectedTask?._id === taskParam;
+
+  // Uses the native History API so Next.js updates useSearchParams without a navigation
+  const updateTaskQuery = useCallback((taskId: string | null) => {
+    const query = new URLSearchParams(window.location.search);
+    if (taskId) {
+      query.set("task", taskId);
     } else {
-      const query = searchQuery.toLowerCase();
-      setFilteredTasks(
-        tasks.filter(
-          (t) =>
-            t.title.toLowerCase().includes(query) ||
-            t.description?.toLowerCase().includes(query)
-        )
-      );
+      query.delete("task");
+    }
+    query.delete("comment");
+    const queryString = query.toString();
+    window.history.replaceState(
+      null,
+      "",
+      `${window.location.pathname}${queryString ? `?${queryString}` : ""}`
+    );
+  }, []);
+
+  // Linked tasks may be beyond the loaded pages, so fall back to fetching them directly
+  const findLinkedTask = useCallback(
+    async (taskId: string): Promise<Task | null> => {
+      const loaded = tasks.find((t) => t._id === taskId);
+      if (loaded) return loaded;
+
+      const response = (await fetchData(`/api/projects/${id}/tasks/${taskId}`, {
+        showErrorToast: false,
+      })) as TaskResponse | null;
+      return response?.success ? response.task : null;
+    },
+    [tasks, fetchData, id]
+  );
+
+  // Resolve ?task= deep links (initial load, search hits from the navbar)
+  useEffect(() => {
+    // Follow the param once it's cleared or already open, so a later link back to a
+    // task that was looked up before still opens it
+    if (!taskParam || selectedTask?._id === taskParam) {
+      handledTaskParam.current = taskParam;
+      return;
     }
-  }, [searchQuery, tasks]);
+    if (isLoadingTasks || handledTaskParam.current === taskParam) return;
+    handledTaskParam.current = taskParam;
+
+    findLinkedTask(taskParam).then((task) => {
+      if (task) {
+        setSelectedTask(task);
+      } else {
+        toast.error("Task not found");
+        updateTaskQuery(null);
+      }
+    });
+  }, [isLoadingTasks, taskParam, selectedTask, findLinkedTask, updateTaskQuery]);
+
+  const closeTaskSheet = () => {
+    updateTaskQuery(null);
+  };
+
+  // Our own new tasks arrive via both the HTTP response and the socket echo, in either order
+  const upsertTask = useCallback((task: Task) => {
+    setTasks((prev) =>
+      upsertById(prev, task, (list) => {
+        // Insert at its sorted position instead of always at the top
+        const index = list.findIndex((t) => compareTasks(task, t, filters) < 0);
+        if (index === -1) return [...list, task];
+        return [...list.slice(0, index), task, ...list.slice(index)];
+      })
+    );
+  }, [filters]);
 
   const handleTaskCreated = (task: Task) => {
-    locallyCreatedTaskIds.current.add(task._id);
-    setTasks((prev) => [task, ...prev]);
-    setTimeout(() => {
-      locallyCreatedTaskIds.current.delete(task._id);
-    }, 5000);
+    // Shown even if it falls outside the active filters, so the creator sees it land
+    upsertTask(task);
   };
 
   const handleTaskUpdated = useCallback((updatedTask: Task) => {
+    // Drop tasks that no longer match the active filters
+    const stillMatches = matchesTaskFilters(updatedTask, filters, user?.id);
     setTasks((prev) =>
-      prev.map((t) => (t._id === updatedTask._id ? updatedTask : t))
+      prev
+        .map((t) => (t._id === updatedTask._id ? updatedTask : t))
+        .filter((t) => t._id !== updatedTask._id || stillMatches)
     );
     setSelectedTask((current) =>
       current?._id === updatedTask._id ? updatedTask : current
     );
-  }, []);
+  }, [filters, user?.id]);
 
   useTaskUpdates(id, {
-    onTaskCreated: (task) => {
-      if (locallyCreatedTaskIds.current.has(task._id)) return;
-      setTasks((prev) => {
-        if (prev.some((t) => t._id === task._id)) return prev;
-        return [task, ...prev];
-      });
+    onTaskCreated: (task, { isLocal }) => {
+      if (!isLocal && !matchesTaskFilters(task, filters, user?.id)) return;
+      upsertTask(task);
     },
     onTaskUpdated: handleTaskUpdated,
     onTaskDeleted: (taskId) => {
       setTasks((prev) => prev.filter((t) => t._id !== taskId));
       if (selectedTask?._id === taskId) {
-        setIsSheetOpen(false);
+        closeTaskSheet();
         setSelectedTask(null);
       }
     },
   });
 
+  // Refetches as many pages as were loaded, so a resync doesn't undo "load more"
+  const reloadLoadedTasks = async () => {
+    const loadedCount = tasks.length;
+    const reloaded: Task[] = [];
+    let nextCursor: string | null = null;
+    let hasMorePages = false;
+    do {
+      const response = await fetchTasks(nextCursor);
+      if (!response?.success) return;
+      reloaded.push(...response.tasks);
+      nextCursor = response.pagination.nextCursor;
+      hasMorePages = response.pagination.hasMore;
+    } while (hasMorePages && reloaded.length < loadedCount);
+
+    setTasks(reloaded);
+    setHasMore(hasMorePages);
+    setCursor(nextCursor);
+  };
+
+  const resyncProject = () => {
+    loadProject();
+    reloadLoadedTasks();
+    if (selectedTask) {
+      fetchData(`/api/projects/${id}/tasks/${selectedTask._id}`, {
+        showErrorToast: false,
+      }).then((response) => {
+        const taskResponse = response as TaskResponse | null;
+        if (taskResponse?.success) {
+          handleTaskUpdated(taskResponse.task);
+        } else {
+          closeTaskSheet();
+          setSelectedTask(null);
+        }
+      });
+    }
+  };
+
+  // Events emitted while the socket was down are lost - refetch what's on screen
+  useSocketReconnect(resyncProject);
+
+  // Replayed offline changes (and any conflicts) replace the local copies
+  useOfflineSynced(resyncProject);
+
+  // Task changes queued offline have no socket echo yet - show them locally until they sync
+  useMutationQueued((mutation) => {
+    const target = getMutationTarget(mutation.url);
+    if (target?.resource !== "task" || target.parentId !== id || !mutation.body) return;
+    const changes = JSON.parse(mutation.body) as Record<string, unknown>;
+    const members = project?.members ?? [];
+
+    if (mutation.method === "POST" && user) {
+      const now = new Date().toISOString();
+      const placeholder: Task = {
+        _id: getOfflineId(mutation.id),
+        title: "",
+        status: TaskStatus.OPEN,
+        project: id,
+        createdBy: { _id: user.id, name: user.name, email: user.email },
+        createdAt: now,
+        updatedAt: now,
+      };
+      upsertTask(applyTaskChanges(placeholder, changes, members));
+    } else if (mutation.method === "PATCH" && target.id) {
+      const apply = (task: Task) =>
+        task._id === target.id ? applyTaskChanges(task, changes, members) : task;
+      setTasks((prev) => prev.map(apply));
+      setSelectedTask((current) => (current ? apply(current) : current));
+    }
+  });
+
+  // Live presence of other members viewing this project
+  const projectViewers = usePresence("project", id);
+
   useProjectUpdates(id, {
-    onProjectUpdated: (updatedProject) => {
+    onProjectUpdated: (updatedProject, { isLocal }) => {
       setProject(updatedProject);
-      toast.success("Project updated");
+      // updateProject already confirmed our own change
+      if (!isLocal) toast.success("Project updated");
     },
-    onMemberAdded: (member) => {
+    onMemberAdded: (member, { isLocal }) => {
       setProject((prev) => {
         if (!prev) return prev;
         if (prev.members.some((m) => m._id === member._id)) return prev;
         return { ...prev, members: [...prev.members, member] };
       });
-      toast.info(`${member.name} joined the project`);
+      if (!isLocal) toast.info(`${member.name} joined the project`);
     },
-    onMemberRemoved: (memberId) => {
+    onMemberRemoved: (memberId, { isLocal }) => {
       setProject((prev) => {
         if (!prev) return prev;
         return {
@@ -473,7 +717,7 @@ export default function ProjectDetailPage({
           members: prev.members.filter((m) => m._id !== memberId),
         };
       });
-      toast.info("A member was removed");
+      if (!isLocal) toast.info("A member was removed");
     },
   });
 
@@ -485,7 +729,7 @@ export default function ProjectDetailPage({
       setTasks((prev) => prev.filter((t) => t._id !== taskId));
       toast.success("Task deleted");
       if (selectedTask?._id === taskId) {
-        setIsSheetOpen(false);
+        closeTaskSheet();
         setSelectedTask(null);
       }
     }
@@ -493,7 +737,64 @@ export default function ProjectDetailPage({
 
   const handleTaskClick = (task: Task) => {
     setSelectedTask(task);
-    setIsSheetOpen(true);
+    updateTaskQuery(task._id);
+  };
+
+  const handleSheetOpenChange = (open: boolean) => {
+    if (!open) closeTaskSheet();
+  };
+
+  const handleViewChange = (nextView: TaskView) => {
+    setView(nextView);
+    saveTaskView(id, nextView);
+  };
+
+  // Board & calendar drags apply locally first - the task:updated event reconciles with the server copy
+  const updateTaskOptimistically = async (
+    task: Task,
+    updates: Pick<Partial<Task>, "status" | "startDate" | "dueDate">
+  ) => {
+    setTasks((prev) =>
+      prev.map((t) => (t._id === task._id ? { ...t, ...updates } : t))
+    );
+
+    const response = await fetchData(`/api/projects/${id}/tasks/${task._id}`, {
+      method: "PATCH",
+      body: JSON.stringify(updates),
+    });
+
+    if (!response) {
+      // Revert unless a newer update has already replaced our optimistic values
+      const keys = Object.keys(updates) as (keyof typeof updates)[];
+      setTasks((prev) =>
+        prev.map((t) =>
+          t._id === task._id && keys.every((key) => t[key] === updates[key])
+            ? { ...t, ...Object.fromEntries(keys.map((key) => [key, task[key]])) }
+            : t
+        )
+      );
+    }
+  };
+
+  const handleTaskStatusChange = (task: Task, status: TaskStatus) => {
+    updateTaskOptimistically(task, { status });
+  };
+
+  const handleTaskReschedule = (task: Task, dueDate: string) => {
+    const previousDue = toDayKey(task.dueDate);
+    const startDate = toDayKey(task.startDate);
+    // Keep the task's duration by shifting its start date along with the due date
+    const shiftedStart =
+      startDate && previousDue
+        ? addDays(startDate, daysBetween(previousDue, dueDate))
+        : startDate && startDate > dueDate
+          ? dueDate
+          : undefined;
+
+    updateTaskOptimistically(task, {
+      dueDate,
+      ...(shiftedStart !== undefined && { startDate: shiftedStart }),
+    });
   };
 
   const handleAddMember = async (userId: string) => {
@@ -571,7 +872,8 @@ export default function ProjectDetailPage({
             <ChevronRight className="h-4 w-4 text-muted-foreground/50" />
             <span className="font-semibold">{project.name}</span>
           </div>
-          <div className="flex items-center gap-2">
+          <div className="flex items-center gap-3">
+            <PresenceAvatars viewers={projectViewers} />
             <Button variant="ghost" size="icon" className="h-9 w-9">
               <Settings className="h-4 w-4" />
             </Button>
@@ -739,15 +1041,51 @@ export default function ProjectDetailPage({
           {/* Task List */}
           <div className="flex-1 overflow-y-auto">
             <div className="py-6 pr-6">
-              {/* Search */}
-              <div className="relative mb-6">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  placeholder="Search tasks..."
-                  className="pl-10 bg-muted/50"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+              {/* Search & View Toggle */}
+              <div className="flex items-center gap-3 mb-6">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search tasks..."
+                    className="pl-10 bg-muted/50"
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                  />
+                </div>
+                <TaskFiltersPopover
+                  filters={filters}
+                  members={project.members}
+                  onApply={handleApplyFilters}
                 />
+                <div className="flex items-center rounded-md border p-0.5">
+                  <Button
+                    variant={view === "list" ? "secondary" : "ghost"}
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => handleViewChange("list")}
+                  >
+                    <List className="h-4 w-4" />
+                    <span className="sr-only">List view</span>
+                  </Button>
+                  <Button
+                    variant={view === "board" ? "secondary" : "ghost"}
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => handleViewChange("board")}
+                  >
+                    <SquareKanban className="h-4 w-4" />
+                    <span className="sr-only">Board view</span>
+                  </Button>
+                  <Button
+                    variant={view === "calendar" ? "secondary" : "ghost"}
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => handleViewChange("calendar")}
+                  >
+                    <CalendarDays className="h-4 w-4" />
+                    <span className="sr-only">Calendar view</span>
+                  </Button>
+                </div>
               </div>
 
               {/* Tasks */}
@@ -757,17 +1095,55 @@ export default function ProjectDetailPage({
                     Loading tasks...
                   </div>
                 </div>
-              ) : filteredTasks.length === 0 ? (
+              ) : view === "calendar" ? (
+                <div className="space-y-4">
+                  <TaskCalendar
+                    tasks={tasks}
+                    onTaskClick={handleTaskClick}
+                    onReschedule={handleTaskReschedule}
+                  />
+                  {hasMore && (
+                    <div className="flex justify-center">
+                      <Button variant="outline" onClick={loadMoreTasks}>
+                        Load More
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ) : view === "board" ? (
+                <div className="space-y-4">
+                  <TaskBoard
+                    tasks={tasks}
+                    onTaskClick={handleTaskClick}
+                    onTaskDelete={handleTaskDeleted}
+                    onStatusChange={handleTaskStatusChange}
+                  />
+                  {hasMore && (
+                    <div className="flex justify-center">
+                      <Button
+                        variant="outline"
+                        onClick={loadMoreTasks}
+                      >
+                        Load More
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ) : tasks.length === 0 ? (
                 <div className="flex flex-col items-center justify-center py-16 text-center">
                   <FolderOpen className="h-12 w-12 text-muted-foreground/50 mb-4" />
-                  <h3 className="font-semibold">No tasks yet</h3>
+                  <h3 className="font-semibold">
+                    {hasActiveFilters ? "No matching tasks" : "No tasks yet"}
+                  </h3>
                   <p className="text-sm text-muted-foreground mt-1">
-                    Create your first task to get started
+                    {hasActiveFilters
+                      ? "Try changing your search or filters"
+                      : "Create your first task to get started"}
                   </p>
                 </div>
               ) : (
                 <div className="space-y-3">
-                  {filteredTasks.map((task) => (
+                  {tasks.map((task) => (
                     <TaskCard
                       key={task._id}
                       task={task}
@@ -779,7 +1155,7 @@ export default function ProjectDetailPage({
                     <div className="flex justify-center pt-4">
                       <Button
                         variant="outline"
-                        onClick={() => loadTasks(cursor)}
+                        onClick={loadMoreTasks}
                       >
                         Load More
                       </Button>
@@ -807,7 +1183,8 @@ export default function ProjectDetailPage({
         projectId={id}
         members={project.members}
         open={isSheetOpen}
-        onOpenChange={setIsSheetOpen}
+        onOpenChange={handleSheetOpenChange}
+        highlightCommentId={commentParam}
       />
     </div>
   );
@@ -21,8 +21,11 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { FolderOpen, Plus, SlidersHorizontal, X, ChevronLeft, ChevronRight } from "lucide-react";
+import { ArrowUp, FolderOpen, Plus, SlidersHorizontal, X, ChevronLeft, ChevronRight } from "lucide-react";
 import { ProjectStatus } from "@/lib/enums";
+import { upsertById } from "@/lib/mutations";
+import { useProjectListUpdates, useSocketReconnect } from "@/hooks/useSocket";
+import { getCurrentPath, getLoginUrl } from "@/lib/routes";
 
 const PAGE_SIZE = 10;
 
@@ -47,14 +50,33 @@ const defaultFilters: Filters = {
   sortOrder: "desc",
 };
 
+function matchesFilters(project: Project, filters: Filters): boolean {
+  return filters.status === "ALL" || project.status === filters.status;
+}
+
+function compareProjects(a: Project, b: Project, filters: Filters): number {
+  const diff = new Date(a[filters.sortBy]).getTime() - new Date(b[filters.sortBy]).getTime();
+  return filters.sortOrder === "asc" ? diff : -diff;
+}
+
+function insertSorted(list: Project[], project: Project, filters: Filters): Project[] {
+  const index = list.findIndex((p) => compareProjects(project, p, filters) < 0);
+  if (index === -1) return [...list, project];
+  return [...list.slice(0, index), project, ...list.slice(index)];
+}
+
 export default function ProjectsPage() {
   const router = useRouter();
-  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
   const { error, isLoading, fetchData } = useFetch<ProjectsResponse>();
 
   const [projects, setProjects] = useState<Project[]>([]);
   const [filters, setFilters] = useState<Filters>(defaultFilters);
   const [filterOpen, setFilterOpen] = useState(false);
+  // What the loaded page was fetched with - `filters` also holds unapplied popover edits
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(defaultFilters);
+  // Live arrivals that belong on this page, held back behind the "new projects" pill
+  const [incomingProjects, setIncomingProjects] = useState<Project[]>([]);
 
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1);
@@ -78,6 +100,8 @@ export default function ProjectsPage() {
 
       if (response?.success) {
         setProjects(response.projects);
+        setAppliedFilters(currentFilters);
+        setIncomingProjects([]);
         setHasMore(response.pagination.hasMore);
         
         // Store the next cursor for potential forward navigation
@@ -95,7 +119,7 @@ export default function ProjectsPage() {
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
-      router.push("/login");
+      router.push(getLoginUrl(getCurrentPath()));
       return;
     }
 
@@ -130,6 +154,72 @@ export default function ProjectsPage() {
     setIsNavigating(false);
   };
 
+  // Whether a project sorts within the range of the loaded page rather than an earlier/later one
+  const belongsOnPage = (project: Project, list: Project[]) => {
+    const first = list[0];
+    const last = list[list.length - 1];
+    if (currentPage > 1 && first && compareProjects(project, first, appliedFilters) < 0) return false;
+    if (hasMore && last && compareProjects(project, last, appliedFilters) > 0) return false;
+    return true;
+  };
+
+  const reloadPage = () => loadProjects(cursorHistory[currentPage - 1] ?? null, appliedFilters);
+
+  // `isNew` for projects created or shared with us since the page loaded - only those wait
+  // behind the pill. One from another page that now sorts onto this one reloads the page, so it
+  // stays PAGE_SIZE long and the next page's cursor still lines up.
+  const applyProjectChange = (project: Project, isNew = false) => {
+    const rest = projects.filter((p) => p._id !== project._id);
+    const fits = matchesFilters(project, appliedFilters) && belongsOnPage(project, rest);
+
+    if (rest.length < projects.length) {
+      // Already listed - move it to its sorted position, or drop it once it stops matching
+      setProjects((prev) => {
+        const others = prev.filter((p) => p._id !== project._id);
+        return fits ? insertSorted(others, project, appliedFilters) : others;
+      });
+    } else if (isNew || incomingProjects.some((p) => p._id === project._id)) {
+      setIncomingProjects((prev) =>
+        fits ? upsertById(prev, project) : prev.filter((p) => p._id !== project._id)
+      );
+    } else if (fits) {
+      reloadPage();
+    }
+  };
+
+  const removeProject = (projectId: string) => {
+    setProjects((prev) => prev.filter((p) => p._id !== projectId));
+    setIncomingProjects((prev) => prev.filter((p) => p._id !== projectId));
+  };
+
+  // Projects we can see are created, changed or shared with us via the per-user room
+  useProjectListUpdates(user?.id ?? null, {
+    onProjectCreated: (project, { isLocal }) => {
+      // handleProjectCreated already reloads the list for our own new projects
+      if (!isLocal) applyProjectChange(project, true);
+    },
+    onProjectUpdated: (project) => applyProjectChange(project),
+    onProjectDeleted: (projectId) => removeProject(projectId),
+    // Being added to a project is when it first shows up for us
+    onMemberAdded: (project, member) => applyProjectChange(project, member._id === user?.id),
+    onMemberRemoved: (project, memberId) => {
+      if (memberId === user?.id) {
+        removeProject(project._id);
+      } else {
+        applyProjectChange(project);
+      }
+    },
+  });
+
+  // Events sent while the socket was down are lost - reload the page we're on
+  useSocketReconnect(reloadPage);
+
+  // Reloading rather than inserting keeps the page at PAGE_SIZE - the rest move to the next one
+  const showIncomingProjects = () => {
+    reloadPage();
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
   const handleProjectCreated = () => {
     // Reset to first page and reload from server to ensure we have fully populated data (e.g. members keys)
     // and correct sort order
@@ -335,6 +425,16 @@ export default function ProjectsPage() {
         )}
       </div>
 
+      {/* New projects arrive behind a pill instead of shifting the grid */}
+      {incomingProjects.length > 0 && !isNavigating && (
+        <div className="sticky top-16 z-10 flex justify-center mb-4">
+          <Button size="sm" className="gap-1.5 rounded-full shadow-md" onClick={showIncomingProjects}>
+            <ArrowUp className="h-3.5 w-3.5" />
+            {incomingProjects.length} new project{incomingProjects.length === 1 ? "" : "s"}
+          </Button>
+        </div>
+      )}
+
       {/* Projects Grid */}
       {projects.length === 0 && !isLoading && !isNavigating ? (
         <div className="flex flex-col items-center justify-center py-16 text-center">
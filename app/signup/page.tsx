@@ -3,6 +3,7 @@
 import { useState, FormEvent } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { useAuth } from "@/context/auth-context";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -25,6 +26,7 @@ import { Gender } from "@/lib/enums";
 
 export default function SignupPage() {
   const router = useRouter();
+  const { login } = useAuth();
   const [formData, setFormData] = useState({
     name: "",
     gender: "",
@@ -64,6 +66,13 @@ export default function SignupPage() {
         return;
       }
 
+      // A signup that also started a session (HttpOnly cookie set by the route) goes straight in
+      if (data.sessionCreated && data.user) {
+        login(data.user);
+        router.push("/profile");
+        return;
+      }
+
       // Redirect to login with success message
       router.push("/login?registered=true");
     } catch {
@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, X } from "lucide-react";
+import { useBackendStatus } from "@/hooks/useBackendStatus";
+import { waitForBackend } from "@/lib/backend-status";
+
+// Typical cold start, for the progress bar - it stops short of full until the backend answers
+const EXPECTED_WAKE_SECONDS = 55;
+
+/**
+ * Banner under the navbar while the backend wakes from a cold start - hidden once it's healthy
+ */
+export function BackendStatusBanner() {
+  const { status, wakingSince } = useBackendStatus();
+  // Dismissing hides this wake-up only - the banner comes back if the backend sleeps again
+  const [dismissedWake, setDismissedWake] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Find out right away whether this visit starts with a cold backend, or once back online
+  useEffect(() => {
+    const checkBackend = () => {
+      if (navigator.onLine) waitForBackend();
+    };
+    checkBackend();
+    window.addEventListener("online", checkBackend);
+    return () => window.removeEventListener("online", checkBackend);
+  }, []);
+
+  useEffect(() => {
+    if (status !== "waking") return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  if ((status !== "waking" && status !== "unavailable") || dismissedWake === wakingSince) {
+    return null;
+  }
+
+  const elapsedSeconds = wakingSince ? Math.max(0, Math.round((now - wakingSince) / 1000)) : 0;
+  const progress = Math.min(elapsedSeconds / EXPECTED_WAKE_SECONDS, 0.95);
+
+  return (
+    <div
+      role="status"
+      className="fixed top-[55px] z-40 w-full bg-yellow-100/90 backdrop-blur-sm border-b border-yellow-200"
+    >
+      <div className="px-4 py-1.5 flex items-center justify-center gap-2">
+        <div className="text-center text-xs font-medium text-yellow-800 flex items-center gap-2">
+          {status === "waking" ? (
+            <>
+              <Loader2 className="h-3 w-3 shrink-0 animate-spin" />
+              <span>
+                Waking up server… The backend sleeps when idle and can take up to a minute
+                to start ({elapsedSeconds}s).
+              </span>
+            </>
+          ) : (
+            <>
+              <span className="shrink-0">⚠️</span>
+              <span>The server isn&apos;t responding.</span>
+              <button
+                onClick={() => waitForBackend()}
+                className="underline underline-offset-2 hover:text-yellow-900"
+              >
+                Try again
+              </button>
+            </>
+          )}
+        </div>
+        <button
+          onClick={() => setDismissedWake(wakingSince)}
+          className="ml-auto md:ml-2 hover:bg-yellow-200/50 rounded p-0.5 transition-colors"
+        >
+          <X className="h-3 w-3 text-yellow-800" />
+          <span className="sr-only">Dismiss</span>
+        </button>
+      </div>
+      {status === "waking" && (
+        <div className="h-0.5 bg-yellow-200">
+          <div
+            className="h-full bg-yellow-500 transition-[width] duration-1000 ease-linear"
+            style={{ width: `${progress * 100}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
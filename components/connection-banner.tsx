@@ -0,0 +1,114 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { CloudOff, Loader2, Wifi } from "lucide-react";
+import { toast } from "sonner";
+import { useConnectionState, useSocketReconnect } from "@/hooks/useSocket";
+import { useMutationQueued, useOfflineQueue, useOnlineStatus } from "@/hooks/useOffline";
+import { describeMutation, replayQueuedMutations } from "@/lib/offline";
+
+const BACK_ONLINE_DURATION = 3000;
+
+function pluralizeChanges(count: number): string {
+  return `${count} change${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Floating pill shown while offline or the realtime connection is lost, and briefly once it's restored.
+ * Also replays changes queued while offline and reports any that the server rejected.
+ */
+export function ConnectionBanner() {
+  const connectionState = useConnectionState();
+  const isOnline = useOnlineStatus();
+  const { queue, isSyncing } = useOfflineQueue();
+  const [showBackOnline, setShowBackOnline] = useState(false);
+
+  const syncQueue = useCallback(() => {
+    replayQueuedMutations().then((result) => {
+      if (!result) return;
+      result.conflicts.forEach(({ mutation, message }) => {
+        toast.error(`Couldn't sync a ${describeMutation(mutation)}: ${message}`);
+      });
+      if (result.synced > 0) {
+        toast.success(`Synced ${pluralizeChanges(result.synced)} made offline`);
+      }
+    });
+  }, []);
+
+  // Changes may also be left over from a previous visit
+  useEffect(() => {
+    syncQueue();
+    window.addEventListener("online", syncQueue);
+    return () => window.removeEventListener("online", syncQueue);
+  }, [syncQueue]);
+
+  // Queued while online only because earlier changes are still waiting - send it right away
+  useMutationQueued(() => {
+    if (navigator.onLine) syncQueue();
+  });
+
+  useSocketReconnect(
+    useCallback(() => {
+      setShowBackOnline(true);
+      syncQueue();
+    }, [syncQueue])
+  );
+
+  useEffect(() => {
+    if (!showBackOnline) return;
+    const timer = setTimeout(() => setShowBackOnline(false), BACK_ONLINE_DURATION);
+    return () => clearTimeout(timer);
+  }, [showBackOnline]);
+
+  if (!isOnline) {
+    return (
+      <div
+        role="status"
+        className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2 flex items-center gap-2 rounded-full border bg-muted px-4 py-1.5 text-xs font-medium text-muted-foreground shadow-md"
+      >
+        <CloudOff className="h-3.5 w-3.5" />
+        {queue.length > 0
+          ? `You're offline. ${pluralizeChanges(queue.length)} will sync when you reconnect.`
+          : "You're offline. Showing saved data."}
+      </div>
+    );
+  }
+
+  if (isSyncing) {
+    return (
+      <div
+        role="status"
+        className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2 flex items-center gap-2 rounded-full border bg-muted px-4 py-1.5 text-xs font-medium text-muted-foreground shadow-md"
+      >
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Syncing {pluralizeChanges(queue.length)}…
+      </div>
+    );
+  }
+
+  if (connectionState === "reconnecting") {
+    return (
+      <div
+        role="status"
+        className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2 flex items-center gap-2 rounded-full border border-amber-500/30 bg-amber-50 px-4 py-1.5 text-xs font-medium text-amber-800 shadow-md"
+      >
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Reconnecting… Live updates are paused.
+      </div>
+    );
+  }
+
+  if (showBackOnline && connectionState === "connected") {
+    return (
+      <div
+        role="status"
+        className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2 flex items-center gap-2 rounded-full border border-emerald-500/30 bg-emerald-50 px-4 py-1.5 text-xs font-medium text-emerald-800 shadow-md"
+      >
+        <Wifi className="h-3.5 w-3.5" />
+        Back online
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -4,7 +4,7 @@ import { useState, FormEvent } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
+import { MarkdownEditor } from "@/components/markdown-editor";
 import {
   Dialog,
   DialogContent,
@@ -21,11 +21,11 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Plus } from "lucide-react";
+import { Flag, Plus } from "lucide-react";
 import { toast } from "sonner";
-import { useFetch } from "@/hooks/useFetch";
-import { TaskStatus } from "@/lib/enums";
-import type { Task } from "@/components/task-card";
+import { useFetch, type QueuedResponse } from "@/hooks/useFetch";
+import { TaskStatus, TaskPriority } from "@/lib/enums";
+import { taskPriorityConfig, type Task } from "@/components/task-card";
 import type { Member } from "@/components/project-card";
 
 interface CreateTaskResponse {
@@ -49,8 +49,11 @@ export function CreateTaskDialog({
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [assignee, setAssignee] = useState<string>("unassigned");
+  const [priority, setPriority] = useState<TaskPriority>(TaskPriority.NONE);
+  const [startDate, setStartDate] = useState("");
+  const [dueDate, setDueDate] = useState("");
   const [error, setError] = useState<string | null>(null);
-  const { isLoading, fetchData } = useFetch<CreateTaskResponse>();
+  const { isLoading, fetchData } = useFetch<CreateTaskResponse | QueuedResponse>();
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
@@ -61,23 +64,39 @@ export function CreateTaskDialog({
       return;
     }
 
+    if (startDate && dueDate && startDate > dueDate) {
+      setError("Start date must be on or before the due date");
+      return;
+    }
+
     const response = await fetchData(`/api/projects/${projectId}/tasks`, {
       method: "POST",
       body: JSON.stringify({
         title: title.trim(),
         description: description.trim() || undefined,
         assignee: assignee === "unassigned" ? undefined : assignee,
+        priority,
+        startDate: startDate || undefined,
+        dueDate: dueDate || undefined,
       }),
       showErrorToast: false,
     });
 
-    if (response?.success && response.task) {
+    if (response && "queued" in response) {
+      // The page shows a placeholder until the queued task syncs
+      toast.success("Task saved offline - it will be created when you reconnect");
+    } else if (response?.success && response.task) {
       toast.success("Task created successfully");
-      // Don't call onTaskCreated here - WebSocket will handle adding the task
-      // This prevents duplicate tasks from appearing
+      // The socket echo carries our mutation ID, so the page upserts instead of duplicating
+      onTaskCreated(response.task);
+    }
+    if (response?.success) {
       setTitle("");
       setDescription("");
       setAssignee("unassigned");
+      setPriority(TaskPriority.NONE);
+      setStartDate("");
+      setDueDate("");
       setOpen(false);
     } else if (response && !response.success) {
       toast.error(response.message || "Failed to create task");
@@ -121,12 +140,12 @@ export function CreateTaskDialog({
             </div>
             <div className="space-y-2">
               <Label htmlFor="task-description">Description</Label>
-              <Textarea
+              <MarkdownEditor
                 id="task-description"
                 placeholder="Describe what needs to be done..."
                 value={description}
-                onChange={(e) => setDescription(e.target.value)}
-                rows={3}
+                onChange={setDescription}
+                rows={4}
               />
             </div>
             <div className="space-y-2">
@@ -145,6 +164,44 @@ export function CreateTaskDialog({
                 </SelectContent>
               </Select>
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="task-priority">Priority</Label>
+              <Select value={priority} onValueChange={(v) => setPriority(v as TaskPriority)}>
+                <SelectTrigger id="task-priority">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(taskPriorityConfig).map(([value, config]) => (
+                    <SelectItem key={value} value={value}>
+                      <Flag className={`h-3.5 w-3.5 ${config.iconColor}`} />
+                      {config.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="task-start-date">Start date</Label>
+                <Input
+                  id="task-start-date"
+                  type="date"
+                  value={startDate}
+                  max={dueDate || undefined}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="task-due-date">Due date</Label>
+                <Input
+                  id="task-due-date"
+                  type="date"
+                  value={dueDate}
+                  min={startDate || undefined}
+                  onChange={(e) => setDueDate(e.target.value)}
+                />
+              </div>
+            </div>
           </div>
           <DialogFooter>
             <Button
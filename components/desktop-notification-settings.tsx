@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+import { BellRing } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  DesktopNotificationEvent,
+  DesktopNotificationPreferences,
+  isDesktopNotificationSupported,
+  loadDesktopPreferences,
+  saveDesktopPreferences,
+} from "@/lib/desktop-notifications";
+
+interface DesktopNotificationSettingsProps {
+  userId: string;
+}
+
+const eventOptions: { event: DesktopNotificationEvent; label: string; description: string }[] = [
+  { event: "assigned", label: "Assignments", description: "A task is assigned to you" },
+  { event: "mentioned", label: "Mentions", description: "Someone @mentions you in a comment" },
+  {
+    event: "commented",
+    label: "Comments",
+    description: "New comments on tasks you created or are assigned",
+  },
+];
+
+/**
+ * Profile card for opting in to desktop notifications - saved per browser
+ */
+export function DesktopNotificationSettings({ userId }: DesktopNotificationSettingsProps) {
+  const [preferences, setPreferences] = useState(() => loadDesktopPreferences(userId));
+  const [permission, setPermission] = useState<NotificationPermission | "unsupported">(() =>
+    isDesktopNotificationSupported() ? Notification.permission : "unsupported"
+  );
+
+  const isActive = preferences.enabled && permission === "granted";
+
+  const updatePreferences = (next: DesktopNotificationPreferences) => {
+    setPreferences(next);
+    saveDesktopPreferences(userId, next);
+  };
+
+  const handleEnabledChange = async (enabled: boolean) => {
+    if (enabled && Notification.permission !== "granted") {
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== "granted") {
+        toast.error("Notifications are blocked for this site in your browser settings");
+        return;
+      }
+    }
+    updatePreferences({ ...preferences, enabled });
+  };
+
+  const handleEventChange = (event: DesktopNotificationEvent, checked: boolean) => {
+    updatePreferences({ ...preferences, events: { ...preferences.events, [event]: checked } });
+  };
+
+  const handleQuietHoursChange = (changes: Partial<DesktopNotificationPreferences["quietHours"]>) => {
+    updatePreferences({ ...preferences, quietHours: { ...preferences.quietHours, ...changes } });
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <BellRing className="h-5 w-5" />
+          Desktop notifications
+        </CardTitle>
+        <CardDescription>
+          Get notified while the app is in a background tab. Saved for this browser only.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {permission === "unsupported" ? (
+          <p className="text-sm text-muted-foreground">
+            This browser doesn&apos;t support desktop notifications.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <label className="flex items-center justify-between gap-4 cursor-pointer">
+                <span className="text-sm font-medium">Enable desktop notifications</span>
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-primary"
+                  checked={isActive}
+                  onChange={(e) => handleEnabledChange(e.target.checked)}
+                />
+              </label>
+              {permission === "denied" && (
+                <p className="text-xs text-destructive">
+                  Blocked by your browser - allow notifications for this site to turn them on.
+                </p>
+              )}
+            </div>
+
+            <div className={`space-y-3 ${isActive ? "" : "opacity-50"}`}>
+              <p className="text-sm font-medium text-muted-foreground">Notify me about</p>
+              {eventOptions.map((option) => (
+                <label key={option.event} className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mt-0.5 h-4 w-4 accent-primary"
+                    disabled={!isActive}
+                    checked={preferences.events[option.event]}
+                    onChange={(e) => handleEventChange(option.event, e.target.checked)}
+                  />
+                  <span>
+                    <span className="block text-sm">{option.label}</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {option.description}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <div className={`space-y-3 ${isActive ? "" : "opacity-50"}`}>
+              <label className="flex items-center justify-between gap-4 cursor-pointer">
+                <span>
+                  <span className="block text-sm font-medium">Quiet hours</span>
+                  <span className="block text-xs text-muted-foreground">
+                    No desktop notifications between these times
+                  </span>
+                </span>
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-primary"
+                  disabled={!isActive}
+                  checked={preferences.quietHours.enabled}
+                  onChange={(e) => handleQuietHoursChange({ enabled: e.target.checked })}
+                />
+              </label>
+              {preferences.quietHours.enabled && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    disabled={!isActive}
+                    value={preferences.quietHours.start}
+                    onChange={(e) => e.target.value && handleQuietHoursChange({ start: e.target.value })}
+                  />
+                  <span className="text-sm text-muted-foreground">to</span>
+                  <Input
+                    type="time"
+                    disabled={!isActive}
+                    value={preferences.quietHours.end}
+                    onChange={(e) => e.target.value && handleQuietHoursChange({ end: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
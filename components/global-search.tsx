@@ -16,9 +16,14 @@ import {
   CheckSquare,
   MessageCircle,
   ArrowRight,
+  Flag,
+  ArrowDownWideNarrow,
 } from "lucide-react";
 import { useFetch } from "@/hooks/useFetch";
-import { ProjectStatus, TaskStatus } from "@/lib/enums";
+import { ProjectStatus, TaskStatus, TaskPriority } from "@/lib/enums";
+import { taskPriorityConfig } from "@/components/task-card";
+import { comparePriority } from "@/lib/task-filters";
+import { mentionsToText } from "@/lib/mentions";
 
 interface SearchProject {
   _id: string;
@@ -33,6 +38,7 @@ interface SearchTask {
   title: string;
   description?: string;
   status: TaskStatus;
+  priority?: TaskPriority;
   project: { _id: string; name: string };
   matchedOn: string;
 }
@@ -71,6 +77,8 @@ export function GlobalSearch({ open, onOpenChange }: GlobalSearchProps) {
   const [results, setResults] = useState<SearchResponse["results"] | null>(null);
   const [isSearching, setIsSearching] = useState(false);
   const [totalCount, setTotalCount] = useState(0);
+  const [priorityFilter, setPriorityFilter] = useState<TaskPriority | "ALL">("ALL");
+  const [sortByPriority, setSortByPriority] = useState(false);
 
   // Focus input when dialog opens
   useEffect(() => {
@@ -80,6 +88,8 @@ export function GlobalSearch({ open, onOpenChange }: GlobalSearchProps) {
       setQuery("");
       setResults(null);
       setTotalCount(0);
+      setPriorityFilter("ALL");
+      setSortByPriority(false);
     }
   }, [open]);
 
@@ -93,7 +103,9 @@ export function GlobalSearch({ open, onOpenChange }: GlobalSearchProps) {
 
     const timer = setTimeout(async () => {
       setIsSearching(true);
-      const response = await fetchData(`/api/search?q=${encodeURIComponent(query)}&limit=5`);
+      const params = new URLSearchParams({ q: query, limit: "5" });
+      if (priorityFilter !== "ALL") params.append("priority", priorityFilter);
+      const response = await fetchData(`/api/search?${params}`);
       if (response?.success) {
         setResults(response.results);
         setTotalCount(response.totalCount);
@@ -102,7 +114,7 @@ export function GlobalSearch({ open, onOpenChange }: GlobalSearchProps) {
     }, 300);
 
     return () => clearTimeout(timer);
-  }, [query, fetchData]);
+  }, [query, priorityFilter, fetchData]);
 
   // Keyboard shortcut
   useEffect(() => {
@@ -127,14 +139,21 @@ export function GlobalSearch({ open, onOpenChange }: GlobalSearchProps) {
     router.push(`/projects/${projectId}?task=${taskId}`);
   }, [router, onOpenChange]);
 
-  const handleCommentClick = useCallback((projectId: string, taskId: string) => {
+  const handleCommentClick = useCallback((projectId: string, taskId: string, commentId: string) => {
     onOpenChange(false);
-    router.push(`/projects/${projectId}?task=${taskId}`);
+    router.push(`/projects/${projectId}?task=${taskId}&comment=${commentId}`);
   }, [router, onOpenChange]);
 
+  const taskResults = results
+    ? [...results.tasks]
+        // Also filtered client-side in case the backend ignores the priority param
+        .filter((task) => priorityFilter === "ALL" || (task.priority || TaskPriority.NONE) === priorityFilter)
+        .sort((a, b) => (sortByPriority ? comparePriority(b.priority, a.priority) : 0))
+    : [];
+
   const hasResults = results && (
     results.projects.length > 0 ||
-    results.tasks.length > 0 ||
+    taskResults.length > 0 ||
     results.comments.length > 0
   );
 
@@ -159,6 +178,37 @@ export function GlobalSearch({ open, onOpenChange }: GlobalSearchProps) {
           </kbd>
         </div>
 
+        {/* Task Priority Filter & Sort */}
+        <div className="flex items-center gap-1.5 px-4 py-2 border-b overflow-x-auto">
+          <Flag className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+          {(["ALL", ...Object.values(TaskPriority)] as const).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setPriorityFilter(value)}
+              className={`shrink-0 rounded-full border px-2 py-0.5 text-[11px] transition-colors ${
+                priorityFilter === value
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "text-muted-foreground hover:bg-muted"
+              }`}
+            >
+              {value === "ALL" ? "Any priority" : taskPriorityConfig[value].label}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => setSortByPriority((prev) => !prev)}
+            className={`ml-auto shrink-0 flex items-center gap-1 rounded-full border px-2 py-0.5 text-[11px] transition-colors ${
+              sortByPriority
+                ? "bg-primary text-primary-foreground border-primary"
+                : "text-muted-foreground hover:bg-muted"
+            }`}
+          >
+            <ArrowDownWideNarrow className="h-3 w-3" />
+            Sort by priority
+          </button>
+        </div>
+
         {/* Results */}
         <div className="max-h-[400px] overflow-y-auto">
           {!query.trim() ? (
@@ -212,12 +262,12 @@ export function GlobalSearch({ open, onOpenChange }: GlobalSearchProps) {
               )}
 
               {/* Tasks */}
-              {results.tasks.length > 0 && (
+              {taskResults.length > 0 && (
                 <div className="px-2 py-1">
                   <p className="px-2 py-1.5 text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                    Tasks ({results.tasks.length})
+                    Tasks ({taskResults.length})
                   </p>
-                  {results.tasks.map((task) => (
+                  {taskResults.map((task) => (
                     <button
                       key={task._id}
                       onClick={() => handleTaskClick(task.project._id, task._id)}
@@ -230,6 +280,9 @@ export function GlobalSearch({ open, onOpenChange }: GlobalSearchProps) {
                           in {task.project.name}
                         </p>
                       </div>
+                      {task.priority && task.priority !== TaskPriority.NONE && (
+                        <Flag className={`h-3.5 w-3.5 shrink-0 ${taskPriorityConfig[task.priority].iconColor}`} />
+                      )}
                       <Badge variant="outline" className="text-[10px] shrink-0">
                         {task.status.replace("_", " ")}
                       </Badge>
@@ -248,12 +301,12 @@ export function GlobalSearch({ open, onOpenChange }: GlobalSearchProps) {
                   {results.comments.map((comment) => (
                     <button
                       key={comment._id}
-                      onClick={() => handleCommentClick(comment.project._id, comment.task._id)}
+                      onClick={() => handleCommentClick(comment.project._id, comment.task._id, comment._id)}
                       className="w-full flex items-center gap-3 px-2 py-2.5 rounded-md hover:bg-muted transition-colors text-left group"
                     >
                       <MessageCircle className="h-4 w-4 text-muted-foreground shrink-0" />
                       <div className="flex-1 min-w-0">
-                        <p className="text-sm truncate">&quot;{comment.content}&quot;</p>
+                        <p className="text-sm truncate">&quot;{mentionsToText(comment.content)}&quot;</p>
                         <p className="text-xs text-muted-foreground truncate">
                           on {comment.task.title} • {comment.project.name}
                         </p>
@@ -0,0 +1,83 @@
+"use client";
+
+import { useState, KeyboardEvent, Ref } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import { Markdown } from "@/components/markdown";
+import { cn } from "@/lib/utils";
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  id?: string;
+  placeholder?: string;
+  rows?: number;
+  className?: string;
+  autoFocus?: boolean;
+  disabled?: boolean;
+  textareaRef?: Ref<HTMLTextAreaElement>;
+  onKeyDown?: (e: KeyboardEvent<HTMLTextAreaElement>) => void;
+}
+
+/**
+ * Textarea with Write / Preview tabs for Markdown content
+ */
+export function MarkdownEditor({
+  value,
+  onChange,
+  id,
+  placeholder,
+  rows = 3,
+  className,
+  autoFocus,
+  disabled,
+  textareaRef,
+  onKeyDown,
+}: MarkdownEditorProps) {
+  const [tab, setTab] = useState<"write" | "preview">("write");
+
+  return (
+    <div className={cn("rounded-md border bg-transparent", className)}>
+      <div className="flex items-center gap-1 border-b px-1.5 py-1">
+        {(["write", "preview"] as const).map((t) => (
+          <button
+            key={t}
+            type="button"
+            onClick={() => setTab(t)}
+            className={`rounded px-2 py-0.5 text-xs font-medium capitalize transition-colors ${
+              tab === t
+                ? "bg-muted text-foreground"
+                : "text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            {t}
+          </button>
+        ))}
+        <span className="ml-auto pr-1 text-[10px] text-muted-foreground">
+          Markdown supported
+        </span>
+      </div>
+      {tab === "write" ? (
+        <Textarea
+          id={id}
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={onKeyDown}
+          placeholder={placeholder}
+          rows={rows}
+          autoFocus={autoFocus}
+          disabled={disabled}
+          className="min-h-0 resize-y border-0 shadow-none focus-visible:ring-0 text-sm"
+        />
+      ) : (
+        <div className="px-3 py-2 overflow-y-auto" style={{ minHeight: `${rows * 1.5}rem` }}>
+          {value.trim() ? (
+            <Markdown content={value} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Nothing to preview</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
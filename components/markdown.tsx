@@ -0,0 +1,78 @@
+"use client";
+
+import { useMemo } from "react";
+import ReactMarkdown, { type Components, type Options } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeHighlight from "rehype-highlight";
+import { cn } from "@/lib/utils";
+import { MENTION_HREF_PREFIX, mentionsToLinks } from "@/lib/mentions";
+import type { Member } from "@/components/project-card";
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+  /**
+   * Compact rendering for previews inside clickable cards -
+   * links become plain text so they don't hijack the card click
+   */
+  preview?: boolean;
+  /** Used to link @mention chips to the mentioned member */
+  members?: Member[];
+}
+
+const mentionChipClass =
+  "inline-flex items-center rounded bg-primary/10 px-1 font-medium text-primary no-underline";
+
+function getComponents(preview: boolean, members?: Member[]): Components {
+  return {
+    a: ({ children, href }) => {
+      if (href?.startsWith(MENTION_HREF_PREFIX)) {
+        const member = members?.find((m) => m._id === href.slice(MENTION_HREF_PREFIX.length));
+        return member && !preview ? (
+          <a href={`mailto:${member.email}`} title={member.email} className={mentionChipClass}>
+            {children}
+          </a>
+        ) : (
+          <span className={mentionChipClass}>{children}</span>
+        );
+      }
+      return preview ? (
+        <span className="underline">{children}</span>
+      ) : (
+        <a href={href} target="_blank" rel="noopener noreferrer">
+          {children}
+        </a>
+      );
+    },
+  };
+}
+
+// Sanitize before highlighting so only the highlighter's own classes are added to code blocks
+const remarkPlugins: Options["remarkPlugins"] = [remarkGfm];
+const rehypePlugins: Options["rehypePlugins"] = [rehypeSanitize, [rehypeHighlight, { detect: true }]];
+
+export function Markdown({ content, className, preview = false, members }: MarkdownProps) {
+  const components = useMemo(() => getComponents(preview, members), [preview, members]);
+
+  return (
+    <div
+      className={cn(
+        "prose prose-sm max-w-none dark:prose-invert break-words",
+        "prose-p:my-1.5 prose-headings:mt-3 prose-headings:mb-1.5 prose-ul:my-1.5 prose-ol:my-1.5 prose-li:my-0.5",
+        "prose-pre:bg-muted prose-pre:text-foreground prose-pre:text-xs prose-code:before:content-none prose-code:after:content-none",
+        "prose-a:text-primary prose-table:text-xs",
+        "[&_.contains-task-list]:list-none [&_.contains-task-list]:pl-1 [&_.task-list-item_input]:mr-1.5",
+        className
+      )}
+    >
+      <ReactMarkdown
+        remarkPlugins={remarkPlugins}
+        rehypePlugins={rehypePlugins}
+        components={components}
+      >
+        {mentionsToLinks(content)}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useEffect, useRef, useState, KeyboardEvent, RefObject } from "react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { MarkdownEditor } from "@/components/markdown-editor";
+import { formatMention } from "@/lib/mentions";
+import type { Member } from "@/components/project-card";
+
+interface MentionEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  members: Member[];
+  placeholder?: string;
+  rows?: number;
+  className?: string;
+  autoFocus?: boolean;
+  disabled?: boolean;
+  textareaRef?: RefObject<HTMLTextAreaElement | null>;
+  onKeyDown?: (e: KeyboardEvent<HTMLTextAreaElement>) => void;
+  // Reports the suggestion list opening and closing, so a dialog can keep Escape from closing it
+  onSuggestionsOpenChange?: (isOpen: boolean) => void;
+}
+
+interface MentionQuery {
+  // Index of the "@" that started the mention
+  start: number;
+  query: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+function getInitials(name: string, email: string): string {
+  if (name)
+    return name.split(" ").map((n) => n[0]).join("").toUpperCase().slice(0, 2);
+  return email[0].toUpperCase();
+}
+
+function getMentionQuery(value: string, caret: number): MentionQuery | null {
+  const match = /(^|\s)@([\w.-]*)$/.exec(value.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[2].length - 1, query: match[2] };
+}
+
+/**
+ * Markdown editor with "@" autocomplete for project members
+ */
+export function MentionEditor({
+  value,
+  onChange,
+  members,
+  textareaRef,
+  onKeyDown,
+  onSuggestionsOpenChange,
+  className,
+  ...editorProps
+}: MentionEditorProps) {
+  const fallbackRef = useRef<HTMLTextAreaElement>(null);
+  const inputRef = textareaRef ?? fallbackRef;
+  const [mention, setMention] = useState<MentionQuery | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = mention
+    ? members
+        .filter((m) => {
+          const query = mention.query.toLowerCase();
+          return m.name?.toLowerCase().includes(query) || m.email.toLowerCase().includes(query);
+        })
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+  const isOpen = suggestions.length > 0;
+
+  useEffect(() => {
+    if (!onSuggestionsOpenChange) return;
+    onSuggestionsOpenChange(isOpen);
+    return () => onSuggestionsOpenChange(false);
+  }, [isOpen, onSuggestionsOpenChange]);
+
+  const updateMention = (text: string) => {
+    const caret = inputRef.current?.selectionStart ?? text.length;
+    setMention(getMentionQuery(text, caret));
+    setActiveIndex(0);
+  };
+
+  const handleChange = (text: string) => {
+    onChange(text);
+    updateMention(text);
+  };
+
+  const selectMember = (member: Member) => {
+    if (!mention) return;
+    const caret = mention.start + mention.query.length + 1;
+    const inserted = `${formatMention(member)} `;
+    onChange(value.slice(0, mention.start) + inserted + value.slice(caret));
+    setMention(null);
+
+    // Restore the caret after React re-renders the new value
+    const position = mention.start + inserted.length;
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (isOpen) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveIndex((i) => (i + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if ((e.key === "Enter" && !e.metaKey && !e.ctrlKey) || e.key === "Tab") {
+        e.preventDefault();
+        selectMember(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+        return;
+      }
+      // A surrounding sheet or dialog sees Escape first - it has to veto its own close
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setMention(null);
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className={`relative ${className ?? ""}`}>
+      <MarkdownEditor
+        {...editorProps}
+        value={value}
+        onChange={handleChange}
+        textareaRef={inputRef}
+        onKeyDown={handleKeyDown}
+      />
+      {isOpen && (
+        <div
+          role="listbox"
+          className="absolute bottom-full left-0 z-50 mb-1 w-64 rounded-md border bg-popover p-1 shadow-md"
+        >
+          {suggestions.map((member, i) => (
+            <button
+              key={member._id}
+              type="button"
+              role="option"
+              aria-selected={i === activeIndex}
+              // Keep focus in the textarea so the caret position survives
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => selectMember(member)}
+              onMouseEnter={() => setActiveIndex(i)}
+              className={`w-full flex items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm ${
+                i === activeIndex ? "bg-accent text-accent-foreground" : ""
+              }`}
+            >
+              <Avatar className="h-5 w-5">
+                <AvatarFallback className="text-[9px] bg-primary text-primary-foreground">
+                  {getInitials(member.name, member.email)}
+                </AvatarFallback>
+              </Avatar>
+              <span className="truncate">{member.name || member.email}</span>
+              {member.name && (
+                <span className="ml-auto truncate text-xs text-muted-foreground">{member.email}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,47 +5,26 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/context/auth-context";
 import { Button } from "@/components/ui/button";
-import { removeAccessToken } from "@/lib/cookies";
 import { GlobalSearch } from "@/components/global-search";
-import { Search, X } from "lucide-react";
+import { NotificationCenter } from "@/components/notification-center";
+import { ConnectionBanner } from "@/components/connection-banner";
+import { BackendStatusBanner } from "@/components/backend-status-banner";
+import { Search } from "lucide-react";
 
 export function Navbar() {
   const router = useRouter();
   const { isAuthenticated, isLoading, logout, user } = useAuth();
   const [searchOpen, setSearchOpen] = useState(false);
-  const [isBannerVisible, setIsBannerVisible] = useState(true);
 
   const handleLogout = async () => {
-    try {
-      await fetch("/api/auth/logout", { method: "POST" });
-    } catch {
-      // Ignore errors, still logout locally
-    }
-    removeAccessToken();
-    logout();
+    await logout();
     router.push("/login");
   };
 
   return (
     <>
-        {/* Free Tier Warning Banner */}
-      {isBannerVisible && (
-        <div className="fixed top-[55px] z-40 w-full bg-yellow-100/90 backdrop-blur-sm border-b border-yellow-200 px-4 py-1.5 flex items-center justify-center gap-2">
-          <div className="text-center text-xs font-medium text-yellow-800 flex items-center gap-2">
-            <span className="shrink-0">⚠️</span>
-            <span>
-              Backend hosted on free instance. Cold starts may take 40-55s if idle.
-            </span>
-          </div>
-          <button 
-            onClick={() => setIsBannerVisible(false)}
-            className="ml-auto md:ml-2 hover:bg-yellow-200/50 rounded p-0.5 transition-colors"
-          >
-            <X className="h-3 w-3 text-yellow-800" />
-            <span className="sr-only">Dismiss</span>
-          </button>
-        </div>
-      )}
+      {/* Cold-start status - shown only while the backend is waking */}
+      <BackendStatusBanner />
       <header className="w-full px-4 py-3 backdrop-blur-sm bg-background/80 border-b z-50 fixed top-0">
         <div className="flex items-center justify-between max-w-7xl mx-auto">
           <Link href="/" className="text-xl font-bold hover:opacity-80 transition-opacity">
@@ -69,6 +48,7 @@ export function Navbar() {
                     <span className="text-xs">⌘</span>K
                   </kbd>
                 </Button>
+                <NotificationCenter />
                 <Link
                   href="/projects"
                   className="text-sm font-medium hover:text-primary transition-colors"
@@ -105,6 +85,9 @@ export function Navbar() {
 
       {/* Global Search Modal */}
       <GlobalSearch open={searchOpen} onOpenChange={setSearchOpen} />
+
+      {/* Realtime Connection Status */}
+      {isAuthenticated && <ConnectionBanner />}
     </>
   );
 }
\ No newline at end of file
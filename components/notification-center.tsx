@@ -0,0 +1,337 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  AtSign,
+  Bell,
+  CheckCheck,
+  Circle,
+  Loader2,
+  MessageSquare,
+  UserPlus,
+  UserCheck,
+} from "lucide-react";
+import { useFetch } from "@/hooks/useFetch";
+import { useAuth } from "@/context/auth-context";
+import { useNotificationUpdates, useSocketReconnect } from "@/hooks/useSocket";
+import { NotificationType, TaskStatus } from "@/lib/enums";
+import { shouldShowDesktopNotification } from "@/lib/desktop-notifications";
+
+export interface UserNotification {
+  _id: string;
+  type: NotificationType;
+  read: boolean;
+  createdAt: string;
+  actor: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+  project: {
+    _id: string;
+    name: string;
+  };
+  task?: {
+    _id: string;
+    title: string;
+  };
+  comment?: string;
+  // New status for TASK_STATUS_CHANGED
+  status?: TaskStatus;
+}
+
+interface NotificationsResponse {
+  success: boolean;
+  notifications: UserNotification[];
+  unreadCount: number;
+  pagination: {
+    hasMore: boolean;
+    nextCursor: string | null;
+  };
+}
+
+const statusLabel = {
+  [TaskStatus.OPEN]: "Open",
+  [TaskStatus.IN_PROGRESS]: "In Progress",
+  [TaskStatus.ON_HOLD]: "On Hold",
+  [TaskStatus.CLOSED]: "Closed",
+};
+
+const typeIcon = {
+  [NotificationType.TASK_ASSIGNED]: UserCheck,
+  [NotificationType.MENTIONED]: AtSign,
+  [NotificationType.TASK_STATUS_CHANGED]: Circle,
+  [NotificationType.MEMBER_ADDED]: UserPlus,
+  [NotificationType.TASK_COMMENTED]: MessageSquare,
+};
+
+function getMessage(notification: UserNotification): string {
+  const actor = notification.actor.name || notification.actor.email;
+  const taskTitle = notification.task?.title ?? "a task";
+  switch (notification.type) {
+    case NotificationType.TASK_ASSIGNED:
+      return `${actor} assigned you "${taskTitle}"`;
+    case NotificationType.MENTIONED:
+      return `${actor} mentioned you on "${taskTitle}"`;
+    case NotificationType.TASK_STATUS_CHANGED:
+      return notification.status
+        ? `${actor} moved "${taskTitle}" to ${statusLabel[notification.status]}`
+        : `${actor} changed the status of "${taskTitle}"`;
+    case NotificationType.MEMBER_ADDED:
+      return `${actor} added you to ${notification.project.name}`;
+    case NotificationType.TASK_COMMENTED:
+      return `${actor} commented on "${taskTitle}"`;
+  }
+}
+
+function getHref(notification: UserNotification): string {
+  const params = new URLSearchParams();
+  if (notification.task) params.set("task", notification.task._id);
+  if (notification.task && notification.comment) params.set("comment", notification.comment);
+  const query = params.toString();
+  return `/projects/${notification.project._id}${query ? `?${query}` : ""}`;
+}
+
+function formatRelativeTime(dateString: string): string {
+  const seconds = Math.floor((Date.now() - new Date(dateString).getTime()) / 1000);
+  if (seconds < 60) return "just now";
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(dateString).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+export function NotificationCenter() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { fetchData } = useFetch();
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const fetchNotifications = useCallback(
+    (cursor?: string) => {
+      const params = new URLSearchParams({ limit: "20" });
+      if (cursor) params.set("cursor", cursor);
+      return fetchData(`/api/notifications?${params}`, {
+        showErrorToast: false,
+      }) as Promise<NotificationsResponse | null>;
+    },
+    [fetchData]
+  );
+
+  const applyFirstPage = useCallback((response: NotificationsResponse | null) => {
+    if (response?.success) {
+      setNotifications(response.notifications);
+      setUnreadCount(response.unreadCount);
+      setNextCursor(response.pagination.hasMore ? response.pagination.nextCursor : null);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    let isStale = false;
+
+    fetchNotifications().then((response) => {
+      if (!isStale) applyFirstPage(response);
+    });
+
+    return () => {
+      isStale = true;
+    };
+  }, [user?.id, fetchNotifications, applyFirstPage]);
+
+  // Notifications sent while the socket was down never arrived - reload the inbox
+  useSocketReconnect(() => {
+    fetchNotifications().then(applyFirstPage);
+  });
+
+  const markRead = useCallback(
+    async (notification: UserNotification) => {
+      if (notification.read) return;
+      // Optimistic - the server only needs to catch up
+      setNotifications((prev) =>
+        prev.map((n) => (n._id === notification._id ? { ...n, read: true } : n))
+      );
+      setUnreadCount((count) => Math.max(0, count - 1));
+      await fetchData(`/api/notifications/${notification._id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ read: true }),
+        showErrorToast: false,
+      });
+    },
+    [fetchData]
+  );
+
+  const handleNotificationCreated = useCallback(
+    (notification: UserNotification) => {
+      setNotifications((prev) =>
+        prev.some((n) => n._id === notification._id) ? prev : [notification, ...prev]
+      );
+      if (!notification.read) setUnreadCount((count) => count + 1);
+
+      if (user && shouldShowDesktopNotification(user.id, notification.type, notification.task?._id)) {
+        // Every open tab gets the event - the shared tag shows it only once
+        try {
+          const desktopNotification = new Notification(notification.project.name, {
+            body: getMessage(notification),
+            tag: notification._id,
+            icon: "/favicon.ico",
+          });
+          desktopNotification.onclick = () => {
+            window.focus();
+            desktopNotification.close();
+            markRead(notification);
+            router.push(getHref(notification));
+          };
+        } catch {
+          // Mobile Chrome only allows notifications from a service worker - the bell still has it
+        }
+      }
+    },
+    [user, markRead, router]
+  );
+
+  // Real-time notifications via the per-user socket room
+  useNotificationUpdates(user?.id ?? null, {
+    onNotificationCreated: handleNotificationCreated,
+  });
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    const response = await fetchNotifications(nextCursor);
+    if (response?.success) {
+      setNotifications((prev) => [
+        ...prev,
+        ...response.notifications.filter((n) => !prev.some((p) => p._id === n._id)),
+      ]);
+      setNextCursor(response.pagination.hasMore ? response.pagination.nextCursor : null);
+    }
+    setIsLoadingMore(false);
+  };
+
+  const handleMarkAllRead = async () => {
+    setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+    setUnreadCount(0);
+    await fetchData("/api/notifications/read-all", { method: "POST" });
+  };
+
+  const handleNotificationClick = (notification: UserNotification) => {
+    markRead(notification);
+    setOpen(false);
+    router.push(getHref(notification));
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-8 w-8">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-white">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">
+            Notifications{unreadCount > 0 ? ` (${unreadCount} unread)` : ""}
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="end">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <h4 className="text-sm font-medium">Notifications</h4>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-auto gap-1 p-0 text-xs text-muted-foreground hover:text-foreground"
+              onClick={handleMarkAllRead}
+            >
+              <CheckCheck className="h-3.5 w-3.5" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : notifications.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <Bell className="h-8 w-8 text-muted-foreground/30 mb-2" />
+              <p className="text-sm text-muted-foreground">You&apos;re all caught up</p>
+            </div>
+          ) : (
+            <>
+              {notifications.map((notification) => {
+                const Icon = typeIcon[notification.type] ?? Bell;
+                return (
+                  <div
+                    key={notification._id}
+                    className={`group flex items-start gap-3 border-b px-4 py-3 last:border-b-0 cursor-pointer hover:bg-muted/50 transition-colors ${
+                      notification.read ? "" : "bg-primary/5"
+                    }`}
+                    onClick={() => handleNotificationClick(notification)}
+                  >
+                    <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm ${notification.read ? "text-muted-foreground" : ""}`}>
+                        {getMessage(notification)}
+                      </p>
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {notification.project.name} • {formatRelativeTime(notification.createdAt)}
+                      </p>
+                    </div>
+                    {!notification.read && (
+                      <button
+                        type="button"
+                        className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary"
+                        title="Mark as read"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          markRead(notification);
+                        }}
+                      >
+                        <span className="sr-only">Mark as read</span>
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+              {nextCursor && (
+                <div className="p-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full text-xs"
+                    onClick={loadMore}
+                    disabled={isLoadingMore}
+                  >
+                    {isLoadingMore && <Loader2 className="h-3 w-3 animate-spin" />}
+                    Load more
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useAuth } from "@/context/auth-context";
+import type { PresenceViewer } from "@/lib/socket-events";
+
+interface PresenceAvatarsProps {
+  viewers: PresenceViewer[];
+  max?: number;
+  label?: string;
+}
+
+function getInitials(name: string, email: string): string {
+  if (name)
+    return name.split(" ").map((n) => n[0]).join("").toUpperCase().slice(0, 2);
+  return email[0].toUpperCase();
+}
+
+/**
+ * Stacked avatars of the other people currently viewing a page
+ */
+export function PresenceAvatars({ viewers, max = 4, label = "Viewing now" }: PresenceAvatarsProps) {
+  const { user } = useAuth();
+
+  // Active viewers first; the same user may be connected from several tabs
+  const others = [...viewers]
+    .sort((a, b) => Number(a.status === "idle") - Number(b.status === "idle"))
+    .filter((v, i, all) => v.userId !== user?.id && all.findIndex((o) => o.userId === v.userId) === i);
+
+  if (others.length === 0) return null;
+
+  const visible = others.slice(0, max);
+  const hiddenCount = others.length - visible.length;
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="hidden sm:inline text-xs text-muted-foreground">{label}</span>
+      <div className="flex -space-x-2">
+        {visible.map((viewer) => (
+          <Tooltip key={viewer.userId}>
+            <TooltipTrigger asChild>
+              <div className="relative">
+                <Avatar
+                  className={`h-7 w-7 border-2 border-background ${
+                    viewer.status === "idle" ? "opacity-50" : ""
+                  }`}
+                >
+                  <AvatarFallback className="text-[10px] bg-primary text-primary-foreground">
+                    {getInitials(viewer.name, viewer.email)}
+                  </AvatarFallback>
+                </Avatar>
+                <span
+                  className={`absolute bottom-0 right-0 h-2 w-2 rounded-full border border-background ${
+                    viewer.status === "idle" ? "bg-amber-400" : "bg-emerald-500"
+                  }`}
+                />
+              </div>
+            </TooltipTrigger>
+            <TooltipContent>
+              {viewer.name || viewer.email}
+              {viewer.status === "idle" ? " (idle)" : ""}
+            </TooltipContent>
+          </Tooltip>
+        ))}
+        {hiddenCount > 0 && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-background bg-muted text-[10px] font-medium text-muted-foreground">
+                +{hiddenCount}
+              </div>
+            </TooltipTrigger>
+            <TooltipContent>
+              {others
+                .slice(max)
+                .map((v) => v.name || v.email)
+                .join(", ")}
+            </TooltipContent>
+          </Tooltip>
+        )}
+      </div>
+    </div>
+  );
+}
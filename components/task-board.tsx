@@ -0,0 +1,120 @@
+"use client";
+
+import { useState, DragEvent } from "react";
+import { Badge } from "@/components/ui/badge";
+import { TaskCard, Task } from "@/components/task-card";
+import { TaskStatus } from "@/lib/enums";
+
+interface TaskBoardProps {
+  tasks: Task[];
+  onTaskClick: (task: Task) => void;
+  onTaskDelete?: (taskId: string) => void;
+  onStatusChange: (task: Task, status: TaskStatus) => void;
+}
+
+const columns = [
+  { status: TaskStatus.OPEN, label: "Open", dotColor: "bg-slate-500" },
+  { status: TaskStatus.IN_PROGRESS, label: "In Progress", dotColor: "bg-blue-500" },
+  { status: TaskStatus.ON_HOLD, label: "On Hold", dotColor: "bg-amber-500" },
+  { status: TaskStatus.CLOSED, label: "Closed", dotColor: "bg-emerald-500" },
+];
+
+const DRAG_DATA_TYPE = "application/x-task-id";
+
+export function TaskBoard({
+  tasks,
+  onTaskClick,
+  onTaskDelete,
+  onStatusChange,
+}: TaskBoardProps) {
+  const [draggingTaskId, setDraggingTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<TaskStatus | null>(null);
+
+  const handleDragStart = (e: DragEvent<HTMLDivElement>, task: Task) => {
+    e.dataTransfer.setData(DRAG_DATA_TYPE, task._id);
+    e.dataTransfer.effectAllowed = "move";
+    setDraggingTaskId(task._id);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingTaskId(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>, status: TaskStatus) => {
+    if (!e.dataTransfer.types.includes(DRAG_DATA_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    if (dropTarget !== status) setDropTarget(status);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>, status: TaskStatus) => {
+    e.preventDefault();
+    const taskId = e.dataTransfer.getData(DRAG_DATA_TYPE);
+    const task = tasks.find((t) => t._id === taskId);
+    handleDragEnd();
+    if (task && task.status !== status) {
+      onStatusChange(task, status);
+    }
+  };
+
+  return (
+    <div className="flex items-start gap-4 overflow-x-auto pb-2">
+      {columns.map((column) => {
+        const columnTasks = tasks.filter((t) => t.status === column.status);
+        const isTarget = dropTarget === column.status;
+
+        return (
+          <div
+            key={column.status}
+            className={`w-72 shrink-0 flex flex-col rounded-lg border bg-muted/30 transition-colors ${
+              isTarget ? "border-primary/50 bg-primary/5" : ""
+            }`}
+            onDragOver={(e) => handleDragOver(e, column.status)}
+            onDragLeave={(e) => {
+              // Ignore leave events fired when moving between child elements
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                setDropTarget(null);
+              }
+            }}
+            onDrop={(e) => handleDrop(e, column.status)}
+          >
+            {/* Column Header */}
+            <div className="flex items-center gap-2 px-3 py-2.5 border-b">
+              <span className={`h-2 w-2 rounded-full ${column.dotColor}`} />
+              <span className="text-sm font-medium">{column.label}</span>
+              <Badge variant="secondary" className="ml-auto text-xs">
+                {columnTasks.length}
+              </Badge>
+            </div>
+
+            {/* Column Cards */}
+            <div className="flex-1 p-2 space-y-2 min-h-[120px]">
+              {columnTasks.length === 0 ? (
+                <div className="flex items-center justify-center h-20 rounded-md border border-dashed text-xs text-muted-foreground">
+                  Drop tasks here
+                </div>
+              ) : (
+                columnTasks.map((task) => (
+                  <div
+                    key={task._id}
+                    draggable
+                    onDragStart={(e) => handleDragStart(e, task)}
+                    onDragEnd={handleDragEnd}
+                    className={draggingTaskId === task._id ? "opacity-50" : ""}
+                  >
+                    <TaskCard
+                      task={task}
+                      onClick={() => onTaskClick(task)}
+                      onDelete={onTaskDelete}
+                    />
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
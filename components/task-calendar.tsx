@@ -0,0 +1,244 @@
+"use client";
+
+import { useState, DragEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { Task } from "@/components/task-card";
+import { TaskStatus } from "@/lib/enums";
+import {
+  addDays,
+  dateToDayKey,
+  dayKeyToDate,
+  getDueState,
+  toDayKey,
+} from "@/lib/task-dates";
+
+type CalendarMode = "month" | "week";
+
+interface TaskCalendarProps {
+  tasks: Task[];
+  onTaskClick: (task: Task) => void;
+  onReschedule: (task: Task, dueDate: string) => void;
+}
+
+const statusDotColor = {
+  [TaskStatus.OPEN]: "bg-slate-500",
+  [TaskStatus.IN_PROGRESS]: "bg-blue-500",
+  [TaskStatus.ON_HOLD]: "bg-amber-500",
+  [TaskStatus.CLOSED]: "bg-emerald-500",
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MAX_TASKS_PER_MONTH_CELL = 3;
+const DRAG_DATA_TYPE = "application/x-task-id";
+
+function startOfWeek(dayKey: string): string {
+  return addDays(dayKey, -dayKeyToDate(dayKey).getDay());
+}
+
+function getVisibleDays(mode: CalendarMode, anchor: string): string[] {
+  if (mode === "week") {
+    const start = startOfWeek(anchor);
+    return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+  }
+
+  // Whole weeks covering the anchor's month
+  const anchorDate = dayKeyToDate(anchor);
+  const firstOfMonth = dateToDayKey(new Date(anchorDate.getFullYear(), anchorDate.getMonth(), 1));
+  const lastOfMonth = dateToDayKey(new Date(anchorDate.getFullYear(), anchorDate.getMonth() + 1, 0));
+  const days: string[] = [];
+  for (let day = startOfWeek(firstOfMonth); days.length % 7 !== 0 || day <= lastOfMonth; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+function getTitle(mode: CalendarMode, days: string[], anchor: string): string {
+  if (mode === "month") {
+    return dayKeyToDate(anchor).toLocaleDateString("en-US", { month: "long", year: "numeric" });
+  }
+  const format = (dayKey: string) =>
+    dayKeyToDate(dayKey).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+  return `${format(days[0])} – ${format(days[days.length - 1])}, ${dayKeyToDate(days[6]).getFullYear()}`;
+}
+
+export function TaskCalendar({ tasks, onTaskClick, onReschedule }: TaskCalendarProps) {
+  const [mode, setMode] = useState<CalendarMode>("month");
+  const [anchor, setAnchor] = useState(() => dateToDayKey(new Date()));
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const today = dateToDayKey(new Date());
+  const currentMonth = dayKeyToDate(anchor).getMonth();
+  const days = getVisibleDays(mode, anchor);
+
+  const tasksByDay = new Map<string, Task[]>();
+  const unscheduled: Task[] = [];
+  tasks.forEach((task) => {
+    const dueKey = toDayKey(task.dueDate);
+    if (!dueKey) {
+      unscheduled.push(task);
+      return;
+    }
+    tasksByDay.set(dueKey, [...(tasksByDay.get(dueKey) || []), task]);
+  });
+
+  const navigate = (direction: -1 | 1) => {
+    if (mode === "week") {
+      setAnchor((prev) => addDays(prev, direction * 7));
+    } else {
+      const date = dayKeyToDate(anchor);
+      setAnchor(dateToDayKey(new Date(date.getFullYear(), date.getMonth() + direction, 1)));
+    }
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>, dayKey: string) => {
+    if (!e.dataTransfer.types.includes(DRAG_DATA_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    if (dropTarget !== dayKey) setDropTarget(dayKey);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>, dayKey: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const task = tasks.find((t) => t._id === e.dataTransfer.getData(DRAG_DATA_TYPE));
+    if (task && toDayKey(task.dueDate) !== dayKey) {
+      onReschedule(task, dayKey);
+    }
+  };
+
+  const renderTaskChip = (task: Task) => {
+    const dueState = getDueState(task);
+    return (
+      <button
+        key={task._id}
+        type="button"
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.setData(DRAG_DATA_TYPE, task._id);
+          e.dataTransfer.effectAllowed = "move";
+        }}
+        onDragEnd={() => setDropTarget(null)}
+        onClick={() => onTaskClick(task)}
+        className={`w-full flex items-center gap-1.5 rounded px-1.5 py-1 text-left text-xs bg-background border hover:border-primary/40 transition-colors ${
+          task.status === TaskStatus.CLOSED ? "text-muted-foreground line-through" : ""
+        } ${dueState === "overdue" ? "border-red-500/40 text-red-600" : ""}`}
+      >
+        <span className={`h-1.5 w-1.5 shrink-0 rounded-full ${statusDotColor[task.status]}`} />
+        <span className="truncate">{task.title}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => setAnchor(today)}>
+          Today
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => navigate(-1)}>
+          <ChevronLeft className="h-4 w-4" />
+          <span className="sr-only">Previous</span>
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => navigate(1)}>
+          <ChevronRight className="h-4 w-4" />
+          <span className="sr-only">Next</span>
+        </Button>
+        <h3 className="font-semibold ml-1">{getTitle(mode, days, anchor)}</h3>
+        <div className="ml-auto flex items-center rounded-md border p-0.5">
+          {(["month", "week"] as const).map((m) => (
+            <Button
+              key={m}
+              variant={mode === m ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 capitalize"
+              onClick={() => setMode(m)}
+            >
+              {m}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Grid */}
+      <div className="rounded-lg border overflow-hidden">
+        <div className="grid grid-cols-7 border-b bg-muted/30">
+          {WEEKDAYS.map((weekday) => (
+            <div key={weekday} className="px-2 py-1.5 text-xs font-medium text-muted-foreground">
+              {weekday}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map((dayKey) => {
+            const dayTasks = tasksByDay.get(dayKey) || [];
+            const visibleTasks =
+              mode === "month" ? dayTasks.slice(0, MAX_TASKS_PER_MONTH_CELL) : dayTasks;
+            const hiddenCount = dayTasks.length - visibleTasks.length;
+            const isOutsideMonth = mode === "month" && dayKeyToDate(dayKey).getMonth() !== currentMonth;
+
+            return (
+              <div
+                key={dayKey}
+                className={`border-r border-b p-1.5 space-y-1 transition-colors ${
+                  mode === "month" ? "min-h-[110px]" : "min-h-[320px]"
+                } ${isOutsideMonth ? "bg-muted/20" : ""} ${
+                  dropTarget === dayKey ? "bg-primary/5 ring-1 ring-inset ring-primary/40" : ""
+                }`}
+                onDragOver={(e) => handleDragOver(e, dayKey)}
+                onDragLeave={(e) => {
+                  if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                    setDropTarget(null);
+                  }
+                }}
+                onDrop={(e) => handleDrop(e, dayKey)}
+              >
+                <div
+                  className={`text-xs font-medium ${
+                    dayKey === today
+                      ? "inline-flex h-5 w-5 items-center justify-center rounded-full bg-primary text-primary-foreground"
+                      : isOutsideMonth
+                        ? "text-muted-foreground/50"
+                        : "text-muted-foreground"
+                  }`}
+                >
+                  {dayKeyToDate(dayKey).getDate()}
+                </div>
+                {visibleTasks.map(renderTaskChip)}
+                {hiddenCount > 0 && (
+                  <button
+                    type="button"
+                    className="text-[11px] text-muted-foreground hover:text-foreground px-1.5"
+                    onClick={() => {
+                      setAnchor(dayKey);
+                      setMode("week");
+                    }}
+                  >
+                    +{hiddenCount} more
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Unscheduled tasks can be dragged onto a day to set their due date */}
+      {unscheduled.length > 0 && (
+        <div className="rounded-lg border p-3">
+          <div className="flex items-center gap-2 mb-2">
+            <span className="text-sm font-medium">No due date</span>
+            <Badge variant="secondary" className="text-xs">
+              {unscheduled.length}
+            </Badge>
+          </div>
+          <div className="grid gap-1.5 sm:grid-cols-2 lg:grid-cols-3">
+            {unscheduled.map(renderTaskChip)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
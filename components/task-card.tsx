@@ -10,7 +10,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Calendar, MessageSquare, MoreVertical, Trash2 } from "lucide-react";
+import { Calendar, CalendarClock, CloudUpload, Flag, MessageSquare, MoreVertical, Trash2 } from "lucide-react";
 
 interface Assignee {
   _id: string;
@@ -18,19 +18,25 @@ interface Assignee {
   email: string;
 }
 
-import { TaskStatus } from "@/lib/enums";
+import { TaskStatus, TaskPriority } from "@/lib/enums";
+import { getDueState, toDayKey, formatDayKey } from "@/lib/task-dates";
+import { Markdown } from "@/components/markdown";
+import { usePendingSync } from "@/hooks/useOffline";
 
 export interface Task {
   _id: string;
   title: string;
   description?: string;
   status: TaskStatus;
+  priority?: TaskPriority;
   assignee?: {
     _id: string;
     name: string;
     email: string;
   };
   project: string;
+  startDate?: string | null;
+  dueDate?: string | null;
   createdBy: {
     _id: string;
     name: string;
@@ -69,6 +75,26 @@ const statusConfig = {
   },
 };
 
+// Shared with the create dialog, detail sheet and search so priority reads the same everywhere
+export const taskPriorityConfig = {
+  [TaskPriority.URGENT]: { label: "Urgent", iconColor: "text-red-500 fill-red-500" },
+  [TaskPriority.HIGH]: { label: "High", iconColor: "text-orange-500 fill-orange-500" },
+  [TaskPriority.MEDIUM]: { label: "Medium", iconColor: "text-yellow-500 fill-yellow-500" },
+  [TaskPriority.LOW]: { label: "Low", iconColor: "text-sky-500" },
+  [TaskPriority.NONE]: { label: "No priority", iconColor: "text-muted-foreground" },
+};
+
+const dueStateConfig = {
+  overdue: {
+    label: "Overdue",
+    className: "bg-red-500/10 text-red-600 border-red-500/20",
+  },
+  "due-soon": {
+    label: "Due soon",
+    className: "bg-amber-500/10 text-amber-600 border-amber-500/20",
+  },
+};
+
 function getInitials(name: string, email: string): string {
   if (name) {
     return name
@@ -91,6 +117,13 @@ function formatDate(dateString: string): string {
 
 export function TaskCard({ task, onClick, onDelete }: TaskCardProps) {
   const status = statusConfig[task.status] || statusConfig[TaskStatus.OPEN];
+  const dueState = getDueState(task);
+  const priority =
+    task.priority && task.priority !== TaskPriority.NONE
+      ? taskPriorityConfig[task.priority]
+      : null;
+  const dueBadge = dueState && dueState !== "upcoming" ? dueStateConfig[dueState] : null;
+  const isPendingSync = usePendingSync(task._id);
 
   const handleDelete = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -124,20 +157,53 @@ export function TaskCard({ task, onClick, onDelete }: TaskCardProps) {
               />
               {status.label}
             </Badge>
+                  {priority && (
+                    <Badge variant="outline" className="flex items-center gap-1 font-medium">
+                      <Flag className={`h-3 w-3 ${priority.iconColor}`} />
+                      {priority.label}
+                    </Badge>
+                  )}
+                  {dueBadge && (
+                    <Badge variant="outline" className={dueBadge.className}>
+                      {dueBadge.label}
+                    </Badge>
+                  )}
+                  {isPendingSync && (
+                    <Badge
+                      variant="outline"
+                      className="flex items-center gap-1 text-muted-foreground"
+                      title="Changes made offline haven't synced yet"
+                    >
+                      <CloudUpload className="h-3 w-3" />
+                      Pending sync
+                    </Badge>
+                  )}
                 </div>
                 <h4 className="font-semibold text-sm mb-1 group-hover:text-primary transition-colors line-clamp-1">
                   {task.title}
                 </h4>
                 {task.description && (
-                  <p className="text-xs text-muted-foreground line-clamp-2 leading-relaxed">
-                    {task.description}
-                  </p>
+                  <Markdown
+                    content={task.description}
+                    preview
+                    className="text-xs text-muted-foreground line-clamp-2 prose-p:my-0 prose-pre:my-0 prose-headings:my-0 prose-headings:text-xs"
+                  />
                 )}
                 <div className="flex items-center gap-4 mt-3 text-xs text-muted-foreground">
                   <div className="flex items-center gap-1.5">
                     <Calendar className="h-3 w-3" />
                     <span>{formatDate(task.createdAt)}</span>
                   </div>
+                  {task.dueDate && (
+                    <div
+                      className={`flex items-center gap-1.5 ${
+                        dueState === "overdue" ? "text-red-600" : ""
+                      }`}
+                    >
+                      <CalendarClock className="h-3 w-3" />
+                      <span>Due {formatDayKey(toDayKey(task.dueDate))}</span>
+                    </div>
+                  )}
                   <div className="flex items-center gap-1.5">
                     <MessageSquare className="h-3 w-3" />
                     <span>Comments</span>
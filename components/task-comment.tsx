@@ -0,0 +1,327 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { History, Loader2, MoreHorizontal, Pencil, Reply, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useFetch } from "@/hooks/useFetch";
+import { Markdown } from "@/components/markdown";
+import { MentionEditor } from "@/components/mention-editor";
+import { extractMentionIds } from "@/lib/mentions";
+import { emitMentionNotification } from "@/lib/socket";
+import type { Member } from "@/components/project-card";
+
+export interface CommentRevision {
+  // Content as it was before the edit made at editedAt
+  content: string;
+  editedAt: string;
+}
+
+export interface Comment {
+  _id: string;
+  content: string;
+  task: string;
+  // Top-level comment this is a reply to - replies are never nested further
+  parent?: string | null;
+  createdBy: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+  editedAt?: string | null;
+  editHistory?: CommentRevision[];
+}
+
+interface TaskCommentProps {
+  comment: Comment;
+  projectId: string;
+  members: Member[];
+  isAuthor: boolean;
+  highlighted?: boolean;
+  onDelete: (commentId: string) => void;
+  onReply?: () => void;
+  // Reports unsaved edits, so the sheet can keep Escape from closing it
+  onEditDirtyChange?: (commentId: string, isDirty: boolean) => void;
+}
+
+function getInitials(name: string, email: string): string {
+  if (name)
+    return name.split(" ").map((n) => n[0]).join("").toUpperCase().slice(0, 2);
+  return email[0].toUpperCase();
+}
+
+function formatTime(dateString: string): string {
+  return new Date(dateString).toLocaleTimeString("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function getEditedAt(comment: Comment): string | null {
+  if (comment.editedAt) return comment.editedAt;
+  // Older comments predate editedAt - content is the only editable field
+  return comment.updatedAt !== comment.createdAt ? comment.updatedAt : null;
+}
+
+/**
+ * Every version of the comment, newest first, with the time it was written
+ */
+function getVersions(comment: Comment): { content: string; writtenAt: string }[] {
+  const history = comment.editHistory || [];
+  const versions = history.map((revision, i) => ({
+    content: revision.content,
+    writtenAt: i === 0 ? comment.createdAt : history[i - 1].editedAt,
+  }));
+  versions.push({
+    content: comment.content,
+    writtenAt: history.length > 0 ? history[history.length - 1].editedAt : comment.createdAt,
+  });
+  return versions.reverse();
+}
+
+export function TaskComment({
+  comment,
+  projectId,
+  members,
+  isAuthor,
+  highlighted,
+  onDelete,
+  onReply,
+  onEditDirtyChange,
+}: TaskCommentProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const { fetchData } = useFetch();
+
+  const isEditDirty = isEditing && draft !== comment.content;
+  useEffect(() => {
+    if (!onEditDirtyChange) return;
+    onEditDirtyChange(comment._id, isEditDirty);
+    return () => onEditDirtyChange(comment._id, false);
+  }, [comment._id, isEditDirty, onEditDirtyChange]);
+
+  const editedAt = getEditedAt(comment);
+  const hasHistory = (comment.editHistory?.length ?? 0) > 0;
+
+  const startEditing = () => {
+    setDraft(comment.content);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!draft.trim()) {
+      toast.error("Comment cannot be empty");
+      return;
+    }
+    if (draft.trim() === comment.content) {
+      setIsEditing(false);
+      return;
+    }
+    setIsSaving(true);
+    // Just make the API call - WebSocket comment:updated will sync the change
+    const response = await fetchData(`/api/comments/${comment._id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ content: draft.trim() }),
+      offlineTaskId: comment.task,
+    });
+    setIsSaving(false);
+    if (response) {
+      setIsEditing(false);
+      // Only ping people who weren't already mentioned
+      const previousIds = extractMentionIds(comment.content);
+      const addedIds = extractMentionIds(draft).filter(
+        (id) => !previousIds.includes(id) && id !== comment.createdBy._id
+      );
+      if (addedIds.length > 0) {
+        emitMentionNotification({
+          userIds: addedIds,
+          projectId,
+          taskId: comment.task,
+          commentId: comment._id,
+        });
+      }
+    }
+  };
+
+  return (
+    <div
+      id={`comment-${comment._id}`}
+      className={`flex gap-3 group rounded-md transition-colors ${
+        highlighted ? "bg-primary/10 ring-1 ring-primary/30 -mx-2 px-2 py-1.5" : ""
+      }`}
+    >
+      <Avatar className="h-7 w-7 shrink-0">
+        <AvatarFallback className="text-[10px] bg-primary text-primary-foreground">
+          {getInitials(comment.createdBy.name, comment.createdBy.email)}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-medium">
+            {comment.createdBy.name || comment.createdBy.email}
+          </span>
+          <span className="text-[10px] text-muted-foreground">
+            {formatTime(comment.createdAt)}
+          </span>
+          {editedAt && (
+            <span
+              className="text-[10px] text-muted-foreground italic"
+              title={`Edited ${formatDateTime(editedAt)}`}
+            >
+              (edited)
+            </span>
+          )}
+          {(isAuthor || hasHistory) && !isEditing && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5 ml-auto opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+                >
+                  <MoreHorizontal className="h-3 w-3 text-muted-foreground" />
+                  <span className="sr-only">Comment actions</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {isAuthor && (
+                  <DropdownMenuItem onClick={startEditing}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit
+                  </DropdownMenuItem>
+                )}
+                {hasHistory && (
+                  <DropdownMenuItem onClick={() => setIsHistoryOpen(true)}>
+                    <History className="h-4 w-4 mr-2" />
+                    View edit history
+                  </DropdownMenuItem>
+                )}
+                {isAuthor && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      className="text-destructive focus:text-destructive"
+                      onClick={() => onDelete(comment._id)}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+        {isEditing ? (
+          <div className="mt-1 space-y-2">
+            <MentionEditor
+              value={draft}
+              onChange={setDraft}
+              members={members}
+              rows={3}
+              autoFocus
+              disabled={isSaving}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+                  e.preventDefault();
+                  handleSave();
+                } else if (e.key === "Escape") {
+                  // Only cancels the edit - the sheet's onEscapeKeyDown keeps it open
+                  e.preventDefault();
+                  setIsEditing(false);
+                }
+              }}
+            />
+            <div className="flex items-center gap-2">
+              <Button size="sm" className="h-7" onClick={handleSave} disabled={isSaving || !draft.trim()}>
+                {isSaving && <Loader2 className="h-3 w-3 animate-spin" />}
+                Save
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7"
+                onClick={() => setIsEditing(false)}
+                disabled={isSaving}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <Markdown
+              content={comment.content}
+              members={members}
+              className="mt-0.5 text-muted-foreground"
+            />
+            {onReply && (
+              <button
+                type="button"
+                className="mt-1 flex items-center gap-1 text-[11px] text-muted-foreground hover:text-foreground"
+                onClick={onReply}
+              >
+                <Reply className="h-3 w-3" />
+                Reply
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {hasHistory && (
+        <Dialog open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Edit history</DialogTitle>
+              <DialogDescription>
+                Previous versions of this comment by {comment.createdBy.name || comment.createdBy.email}.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="max-h-[60vh] overflow-y-auto space-y-3">
+              {getVersions(comment).map((version, i, versions) => (
+                <div key={`${version.writtenAt}-${i}`} className="rounded-md border p-3">
+                  <div className="text-xs text-muted-foreground mb-1">
+                    {i === 0 ? "Current" : i === versions.length - 1 ? "Original" : "Edited"}
+                    {" · "}
+                    {formatDateTime(version.writtenAt)}
+                  </div>
+                  <Markdown content={version.content} members={members} />
+                </div>
+              ))}
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
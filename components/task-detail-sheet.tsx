@@ -23,29 +23,33 @@ import {
   User,
   Send,
   Loader2,
-  Trash2,
   MessageCircle,
+  Flag,
+  Pencil,
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Reply,
+  X,
 } from "lucide-react";
 import { toast } from "sonner";
 import { useFetch } from "@/hooks/useFetch";
 import { useAuth } from "@/context/auth-context";
-import { useCommentUpdates } from "@/hooks/useSocket";
-import type { Task } from "@/components/task-card";
+import {
+  useCommentUpdates,
+  useCommentTyping,
+  usePresence,
+  useSocketReconnect,
+} from "@/hooks/useSocket";
+import type { TypingUser } from "@/lib/socket-events";
+import { Markdown } from "@/components/markdown";
+import { MarkdownEditor } from "@/components/markdown-editor";
+import { MentionEditor } from "@/components/mention-editor";
+import { PresenceAvatars } from "@/components/presence-avatars";
+import { taskPriorityConfig, type Task } from "@/components/task-card";
+import { TaskComment, type Comment } from "@/components/task-comment";
 import type { Member } from "@/components/project-card";
 
-interface Comment {
-  _id: string;
-  content: string;
-  task: string;
-  createdBy: {
-    _id: string;
-    name: string;
-    email: string;
-  };
-  createdAt: string;
-  updatedAt: string;
-}
-
 interface CommentsResponse {
   success: boolean;
   comments: Comment[];
@@ -55,18 +59,32 @@ interface CommentsResponse {
   };
 }
 
+interface CommentAddResponse {
+  success: boolean;
+  comment: Comment;
+}
+
 interface TaskDetailSheetProps {
   task: Task | null;
   projectId: string;
   members: Member[];
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  highlightCommentId?: string | null;
 }
 
 // Note: TaskUpdateResponse, CommentAddResponse, DeleteResponse interfaces removed
 // since we no longer process API responses locally - WebSocket handles all updates
 
-import { TaskStatus, ProjectStatus } from "@/lib/enums";
+import { TaskStatus, TaskPriority, ProjectStatus } from "@/lib/enums";
+import { getDueState, toDayKey } from "@/lib/task-dates";
+import { extractMentionIds } from "@/lib/mentions";
+import { emitMentionNotification } from "@/lib/socket";
+import { clearFocusedTask, setFocusedTask } from "@/lib/desktop-notifications";
+import { upsertById } from "@/lib/mutations";
+import { getMutationTarget, getOfflineId, isOfflineId } from "@/lib/offline";
+import type { QueuedResponse } from "@/hooks/useFetch";
+import { useMutationQueued, useOfflineSynced } from "@/hooks/useOffline";
 
 // ... existing code ...
 
@@ -91,11 +109,11 @@ function formatDate(dateString: string): string {
   });
 }
 
-function formatTime(dateString: string): string {
-  return new Date(dateString).toLocaleTimeString("en-US", {
-    hour: "2-digit",
-    minute: "2-digit",
-  });
+function formatTypingUsers(users: TypingUser[]): string {
+  const names = users.map((u) => u.name || u.email);
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return "Several people are typing…";
 }
 
 export function TaskDetailSheet({
@@ -104,53 +122,108 @@ export function TaskDetailSheet({
   members,
   open,
   onOpenChange,
+  highlightCommentId,
 }: TaskDetailSheetProps) {
   const { user } = useAuth();
   const [comments, setComments] = useState<Comment[]>([]);
   const [newComment, setNewComment] = useState("");
   const [isLoadingComments, setIsLoadingComments] = useState(false);
   const [isSubmittingComment, setIsSubmittingComment] = useState(false);
+  // Top-level comment the composer is replying to
+  const [replyTo, setReplyTo] = useState<Comment | null>(null);
+  const [collapsedThreads, setCollapsedThreads] = useState<Set<string>>(new Set());
   const [isUpdating, setIsUpdating] = useState(false);
+  // Snapshot of the task when editing began - used for dirty & conflict checks
+  const [editBase, setEditBase] = useState<Task | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const [draftDescription, setDraftDescription] = useState("");
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
   const { fetchData } = useFetch();
   const commentsEndRef = useRef<HTMLDivElement>(null);
+  // Comments with unsaved edits - Escape cancels the edit rather than closing the sheet
+  const dirtyCommentEditsRef = useRef(new Set<string>());
+
+  const handleCommentEditDirtyChange = useCallback((commentId: string, isDirty: boolean) => {
+    if (isDirty) {
+      dirtyCommentEditsRef.current.add(commentId);
+    } else {
+      dirtyCommentEditsRef.current.delete(commentId);
+    }
+  }, []);
+  // The composer's "@" suggestions are open - Escape closes them rather than the sheet
+  const composerSuggestionsOpenRef = useRef(false);
+  const handleComposerSuggestionsOpenChange = useCallback((isOpen: boolean) => {
+    composerSuggestionsOpenRef.current = isOpen;
+  }, []);
+  const commentInputRef = useRef<HTMLTextAreaElement>(null);
+  // Linked comment we've already scrolled to, so live updates don't yank the list back
+  const scrolledToCommentId = useRef<string | null>(null);
 
   const scrollToBottom = () => {
     commentsEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
+  // Keyed on the ID - every task:updated brings a new task object, and reloading then would
+  // throw away inline comment edits
+  const taskId = task?._id ?? null;
+
   const loadComments = useCallback(async () => {
-    if (!task) return;
+    // A task created offline has no comments on the server yet
+    if (!taskId || isOfflineId(taskId)) return;
+    // Drop another task's comments so the spinner shows; a reload keeps the list on screen
+    setComments((prev) => (prev.length > 0 && prev[0].task !== taskId ? [] : prev));
     setIsLoadingComments(true);
     const response = (await fetchData(
-      `/api/tasks/${task._id}/comments?limit=50`
+      `/api/tasks/${taskId}/comments?limit=50`
     )) as CommentsResponse | null;
     if (response?.success) {
       setComments(response.comments);
     }
     setIsLoadingComments(false);
-  }, [task, fetchData]);
+  }, [taskId, fetchData]);
 
   useEffect(() => {
-    if (open && task) {
+    if (open && taskId) {
       loadComments();
     } else {
       setComments([]);
       setNewComment("");
+      setReplyTo(null);
+      setCollapsedThreads(new Set());
+      setEditBase(null);
+      scrolledToCommentId.current = null;
     }
-  }, [open, task, loadComments]);
+  }, [open, taskId, loadComments]);
 
-  // Scroll to bottom when comments load
+  // Scroll to the linked comment once it loads, otherwise to the bottom
   useEffect(() => {
-    if (comments.length > 0) {
-      scrollToBottom();
+    if (comments.length === 0) return;
+
+    if (highlightCommentId && scrolledToCommentId.current !== highlightCommentId) {
+      const target = document.getElementById(`comment-${highlightCommentId}`);
+      if (target) {
+        scrolledToCommentId.current = highlightCommentId;
+        target.scrollIntoView({ behavior: "smooth", block: "center" });
+        return;
+      }
     }
-  }, [comments]);
+    scrollToBottom();
+  }, [comments, highlightCommentId]);
 
   // Real-time comment updates via WebSocket
   useCommentUpdates(open && task ? task._id : null, {
     onCommentCreated: (comment) => {
-      setComments((prev) => [...prev, comment]);
-      setTimeout(scrollToBottom, 100);
+      // A resync after reconnect may already have loaded it
+      setComments((prev) => upsertById(prev, comment, (list) => [...list, comment]));
+      if (comment.parent) {
+        setTimeout(() => {
+          document
+            .getElementById(`comment-${comment._id}`)
+            ?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+        }, 100);
+      } else {
+        setTimeout(scrollToBottom, 100);
+      }
     },
     onCommentUpdated: (comment) => {
       setComments((prev) =>
@@ -158,10 +231,146 @@ export function TaskDetailSheet({
       );
     },
     onCommentDeleted: (commentId) => {
-      setComments((prev) => prev.filter((c) => c._id !== commentId));
+      // Replies go with their thread
+      setComments((prev) =>
+        prev.filter((c) => c._id !== commentId && c.parent !== commentId)
+      );
+      setReplyTo((prev) => (prev?._id === commentId ? null : prev));
     },
   });
 
+  // Comments posted while the socket was down never arrived - reload them
+  useSocketReconnect(() => {
+    if (open && task) loadComments();
+  });
+
+  // Replayed offline comments replace their local placeholders
+  useOfflineSynced(() => {
+    if (open && task) loadComments();
+  });
+
+  // Comment changes queued offline have no socket echo yet - show them locally until they sync
+  useMutationQueued((mutation) => {
+    const target = getMutationTarget(mutation.url);
+    if (!task || !user || target?.resource !== "comment" || mutation.taskId !== task._id) return;
+    const changes = mutation.body ? (JSON.parse(mutation.body) as Partial<Comment>) : {};
+
+    if (mutation.method === "POST") {
+      const now = new Date().toISOString();
+      const placeholder: Comment = {
+        _id: getOfflineId(mutation.id),
+        content: changes.content ?? "",
+        task: task._id,
+        parent: changes.parent,
+        createdBy: { _id: user.id, name: user.name, email: user.email },
+        createdAt: now,
+        updatedAt: now,
+      };
+      setComments((prev) => [...prev, placeholder]);
+      setTimeout(scrollToBottom, 100);
+    } else if (mutation.method === "PATCH" && target.id) {
+      setComments((prev) =>
+        prev.map((c) => (c._id === target.id ? { ...c, ...changes, editedAt: new Date().toISOString() } : c))
+      );
+    } else if (mutation.method === "DELETE" && target.id) {
+      setComments((prev) => prev.filter((c) => c._id !== target.id && c.parent !== target.id));
+      setReplyTo((prev) => (prev?._id === target.id ? null : prev));
+    }
+  });
+
+  // Desktop notifications about this task are redundant while its sheet is in a focused window
+  const openTaskId = open && task ? task._id : null;
+  useEffect(() => {
+    if (!openTaskId) return;
+
+    const updateFocus = () => {
+      if (document.hasFocus()) {
+        setFocusedTask(openTaskId);
+      } else {
+        clearFocusedTask(openTaskId);
+      }
+    };
+    const handleLeave = () => clearFocusedTask(openTaskId);
+
+    updateFocus();
+    window.addEventListener("focus", updateFocus);
+    window.addEventListener("blur", updateFocus);
+    window.addEventListener("pagehide", handleLeave);
+    return () => {
+      window.removeEventListener("focus", updateFocus);
+      window.removeEventListener("blur", updateFocus);
+      window.removeEventListener("pagehide", handleLeave);
+      clearFocusedTask(openTaskId);
+    };
+  }, [openTaskId]);
+
+  // Live presence of other members viewing this task
+  const taskViewers = usePresence("task", open && task ? task._id : null);
+  const { typingUsers, notifyTyping, stopTyping } = useCommentTyping(open && task ? task._id : null);
+  const otherTypingUsers = typingUsers.filter((u) => u._id !== user?.id);
+
+  const isEditing = task !== null && editBase?._id === task._id;
+  const isDirty =
+    isEditing &&
+    (draftTitle !== editBase.title || draftDescription !== (editBase.description || ""));
+  // Someone else changed the title/description since we started editing
+  const hasConflict =
+    isEditing &&
+    (task.title !== editBase.title || (task.description || "") !== (editBase.description || "")) &&
+    (task.title !== draftTitle || (task.description || "") !== draftDescription);
+
+  const startEditing = () => {
+    if (!task) return;
+    setEditBase(task);
+    setDraftTitle(task.title);
+    setDraftDescription(task.description || "");
+  };
+
+  const cancelEditing = () => {
+    setEditBase(null);
+  };
+
+  const handleUseLatest = () => {
+    if (!task) return;
+    startEditing();
+  };
+
+  const handleKeepMine = () => {
+    // Rebase onto the latest version so saving knowingly overwrites it
+    setEditBase(task);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!task) return;
+    if (!draftTitle.trim()) {
+      toast.error("Task title is required");
+      return;
+    }
+    setIsSavingEdit(true);
+    // WebSocket task:updated will sync the change
+    const response = await fetchData(
+      `/api/projects/${projectId}/tasks/${task._id}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify({
+          title: draftTitle.trim(),
+          description: draftDescription.trim(),
+        }),
+      }
+    );
+    setIsSavingEdit(false);
+    if (response) {
+      setEditBase(null);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && isDirty && !confirm("Discard your unsaved changes to this task?")) {
+      return;
+    }
+    onOpenChange(nextOpen);
+  };
+
   const handleStatusChange = async (status: Task["status"]) => {
     if (!task) return;
     setIsUpdating(true);
@@ -173,6 +382,17 @@ export function TaskDetailSheet({
     setIsUpdating(false);
   };
 
+  const handlePriorityChange = async (priority: TaskPriority) => {
+    if (!task) return;
+    setIsUpdating(true);
+    // Just make the API call - WebSocket task:updated will sync the change
+    await fetchData(
+      `/api/projects/${projectId}/tasks/${task._id}`,
+      { method: "PATCH", body: JSON.stringify({ priority }) }
+    );
+    setIsUpdating(false);
+  };
+
   const handleAssigneeChange = async (assigneeId: string) => {
     if (!task) return;
     setIsUpdating(true);
@@ -189,23 +409,103 @@ export function TaskDetailSheet({
     setIsUpdating(false);
   };
 
+  // Runs on blur and on each change; only a complete date that differs from the task is sent,
+  // and the input goes back to the task's date if the update is rejected
+  const handleDateChange = async (field: "startDate" | "dueDate", input: HTMLInputElement) => {
+    if (!task || isUpdating) return;
+    const current = toDayKey(task[field]);
+    // A half-typed date reads as "" - wait for blur, then drop it rather than clear the field
+    if (input.validity.badInput) {
+      if (document.activeElement !== input) input.value = current;
+      return;
+    }
+    const value = input.value;
+    if (value === current || (!value && document.activeElement === input)) return;
+
+    const startDate = field === "startDate" ? value : toDayKey(task.startDate);
+    const dueDate = field === "dueDate" ? value : toDayKey(task.dueDate);
+    if (startDate && dueDate && startDate > dueDate) {
+      toast.error("Start date must be on or before the due date");
+      input.value = current;
+      return;
+    }
+    setIsUpdating(true);
+    // Just make the API call - WebSocket task:updated will sync the change
+    const response = await fetchData(
+      `/api/projects/${projectId}/tasks/${task._id}`,
+      { method: "PATCH", body: JSON.stringify({ [field]: value || null }) }
+    );
+    if (!response) input.value = current;
+    setIsUpdating(false);
+  };
+
   const handleAddComment = async (e: FormEvent) => {
     e.preventDefault();
     if (!task || !newComment.trim()) return;
     setIsSubmittingComment(true);
+    stopTyping();
     // Just make the API call - WebSocket comment:created will sync the change
-    await fetchData(`/api/tasks/${task._id}/comments`, {
+    const response = (await fetchData(`/api/tasks/${task._id}/comments`, {
       method: "POST",
-      body: JSON.stringify({ content: newComment.trim() }),
-    });
+      body: JSON.stringify({
+        content: newComment.trim(),
+        ...(replyTo && { parent: replyTo._id }),
+      }),
+    })) as CommentAddResponse | QueuedResponse | null;
+    const mentionedIds = extractMentionIds(newComment).filter((id) => id !== user?.id);
+    // Comments queued offline have no ID to link to yet, so their mentions aren't notified
+    if (response && "comment" in response && mentionedIds.length > 0) {
+      emitMentionNotification({
+        userIds: mentionedIds,
+        projectId,
+        taskId: task._id,
+        commentId: response.comment._id,
+      });
+    }
+    if (replyTo) {
+      // Make sure the new reply is visible when it arrives
+      setCollapsedThreads((prev) => {
+        const next = new Set(prev);
+        next.delete(replyTo._id);
+        return next;
+      });
+    }
     setNewComment("");
+    setReplyTo(null);
     setIsSubmittingComment(false);
   };
 
+  const handleCommentChange = (value: string) => {
+    setNewComment(value);
+    if (value.trim()) {
+      notifyTyping();
+    } else {
+      stopTyping();
+    }
+  };
+
+  const handleReply = (comment: Comment) => {
+    setReplyTo(comment);
+    commentInputRef.current?.focus();
+  };
+
+  const toggleThread = (commentId: string) => {
+    setCollapsedThreads((prev) => {
+      const next = new Set(prev);
+      if (next.has(commentId)) {
+        next.delete(commentId);
+      } else {
+        next.add(commentId);
+      }
+      return next;
+    });
+  };
+
   const handleDeleteComment = async (commentId: string) => {
     // Just make the API call - WebSocket comment:deleted will sync the change
     await fetchData(`/api/comments/${commentId}`, {
       method: "DELETE",
+      offlineTaskId: task?._id,
     });
   };
 
@@ -213,10 +513,33 @@ export function TaskDetailSheet({
 
   const status = statusConfig[task.status];
   const assignee = task.assignee;
+  const dueState = getDueState(task);
+
+  // Group replies under their thread. Replies whose parent isn't loaded are shown top-level.
+  const commentIds = new Set(comments.map((c) => c._id));
+  const threads = comments.filter((c) => !c.parent || !commentIds.has(c.parent));
+  const repliesByParent = new Map<string, Comment[]>();
+  comments.forEach((c) => {
+    if (c.parent && commentIds.has(c.parent)) {
+      repliesByParent.set(c.parent, [...(repliesByParent.get(c.parent) || []), c]);
+    }
+  });
 
   return (
-    <Sheet open={open} onOpenChange={onOpenChange}>
-      <SheetContent className="w-full sm:max-w-md p-0 flex flex-col h-full">
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetContent
+        className="w-full sm:max-w-md p-0 flex flex-col h-full"
+        onEscapeKeyDown={(e) => {
+          // Radix listens on the document, so the editors can't stop this - veto it here instead
+          if (dirtyCommentEditsRef.current.size > 0 || composerSuggestionsOpenRef.current) {
+            e.preventDefault();
+          } else if (replyTo) {
+            // Cancels the reply and keeps the typed comment
+            e.preventDefault();
+            setReplyTo(null);
+          }
+        }}
+      >
         {/* Header */}
         <SheetHeader className="px-5 pt-5 pb-4 border-b space-y-0">
           <div className="flex items-center gap-2 mb-2">
@@ -224,14 +547,96 @@ export function TaskDetailSheet({
               <span className={`h-1.5 w-1.5 rounded-full ${status.dotColor}`} />
               {status.label}
             </Badge>
+            {dueState === "overdue" && (
+              <Badge variant="outline" className="text-xs bg-red-500/10 text-red-600 border-red-500/20">
+                Overdue
+              </Badge>
+            )}
+            {dueState === "due-soon" && (
+              <Badge variant="outline" className="text-xs bg-amber-500/10 text-amber-600 border-amber-500/20">
+                Due soon
+              </Badge>
+            )}
+            <div className="ml-auto pr-8">
+              <PresenceAvatars viewers={taskViewers} max={3} label="Also here" />
+            </div>
           </div>
-          <SheetTitle className="text-lg font-semibold leading-tight pr-8">
-            {task.title}
-          </SheetTitle>
-          {task.description && (
-            <p className="text-sm text-muted-foreground mt-2 leading-relaxed">
-              {task.description}
-            </p>
+          {isEditing ? (
+            <div className="space-y-2 pr-8">
+              <SheetTitle className="sr-only">{task.title}</SheetTitle>
+              {hasConflict && (
+                <div className="rounded-md border border-amber-500/30 bg-amber-500/10 p-2.5 text-xs text-amber-700 space-y-2">
+                  <div className="flex items-start gap-1.5">
+                    <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+                    <span>
+                      Someone else updated this task while you were editing. Saving will overwrite their changes.
+                    </span>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" className="h-6 text-xs" onClick={handleUseLatest}>
+                      Use their version
+                    </Button>
+                    <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={handleKeepMine}>
+                      Keep mine
+                    </Button>
+                  </div>
+                </div>
+              )}
+              <Input
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                className="h-9 text-base font-semibold"
+                placeholder="Task title"
+                autoFocus
+              />
+              <MarkdownEditor
+                value={draftDescription}
+                onChange={setDraftDescription}
+                placeholder="Add a description..."
+                rows={4}
+              />
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  onClick={handleSaveEdit}
+                  disabled={isSavingEdit || !isDirty || !draftTitle.trim()}
+                >
+                  {isSavingEdit && <Loader2 className="h-3 w-3 animate-spin" />}
+                  Save
+                </Button>
+                <Button size="sm" variant="ghost" onClick={cancelEditing} disabled={isSavingEdit}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="group">
+              <div className="flex items-start gap-2 pr-8">
+                <SheetTitle className="text-lg font-semibold leading-tight">
+                  {task.title}
+                </SheetTitle>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                  onClick={startEditing}
+                >
+                  <Pencil className="h-3 w-3" />
+                  <span className="sr-only">Edit title and description</span>
+                </Button>
+              </div>
+              {task.description ? (
+                <Markdown content={task.description} className="mt-2 text-muted-foreground" />
+              ) : (
+                <button
+                  type="button"
+                  className="text-sm text-muted-foreground/70 hover:text-foreground mt-2"
+                  onClick={startEditing}
+                >
+                  Add a description...
+                </button>
+              )}
+            </div>
           )}
           <div className="flex items-center gap-3 text-xs text-muted-foreground mt-3 pt-3 border-t">
             <span className="flex items-center gap-1">
@@ -289,6 +694,56 @@ export function TaskDetailSheet({
           </div>
         </div>
 
+        {/* Priority */}
+        <div className="px-5 py-3 border-b flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">Priority</span>
+          <Select
+            value={task.priority || TaskPriority.NONE}
+            onValueChange={(v) => handlePriorityChange(v as TaskPriority)}
+            disabled={isUpdating}
+          >
+            <SelectTrigger className="h-8 w-auto min-w-[120px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(taskPriorityConfig).map(([value, config]) => (
+                <SelectItem key={value} value={value}>
+                  <Flag className={`h-3.5 w-3.5 ${config.iconColor}`} />
+                  {config.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Start & Due Dates - keyed on the server value so socket updates reset the inputs */}
+        <div className="px-5 py-3 border-b flex items-center gap-4">
+          <div className="flex items-center gap-2 flex-1">
+            <span className="text-xs text-muted-foreground">Start</span>
+            <Input
+              key={`start-${task.startDate ?? ""}`}
+              type="date"
+              defaultValue={toDayKey(task.startDate)}
+              onChange={(e) => handleDateChange("startDate", e.currentTarget)}
+              onBlur={(e) => handleDateChange("startDate", e.currentTarget)}
+              disabled={isUpdating}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="flex items-center gap-2 flex-1">
+            <span className="text-xs text-muted-foreground">Due</span>
+            <Input
+              key={`due-${task.dueDate ?? ""}`}
+              type="date"
+              defaultValue={toDayKey(task.dueDate)}
+              onChange={(e) => handleDateChange("dueDate", e.currentTarget)}
+              onBlur={(e) => handleDateChange("dueDate", e.currentTarget)}
+              disabled={isUpdating}
+              className={`h-8 text-xs ${dueState === "overdue" ? "text-red-600" : ""}`}
+            />
+          </div>
+        </div>
+
         {/* Comments Section - Takes remaining space */}
         <div className="flex-1 flex flex-col min-h-0">
           {/* Comments Header */}
@@ -302,7 +757,7 @@ export function TaskDetailSheet({
 
           {/* Scrollable Comments List */}
           <div className="flex-1 overflow-y-auto px-5 py-3">
-            {isLoadingComments ? (
+            {isLoadingComments && comments.length === 0 ? (
               <div className="flex items-center justify-center h-full">
                 <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
               </div>
@@ -314,55 +769,117 @@ export function TaskDetailSheet({
               </div>
             ) : (
               <div className="space-y-4">
-                {comments.map((comment) => (
-                  <div key={comment._id} className="flex gap-3 group">
-                    <Avatar className="h-7 w-7 shrink-0">
-                      <AvatarFallback className="text-[10px] bg-primary text-primary-foreground">
-                        {getInitials(comment.createdBy.name, comment.createdBy.email)}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2">
-                        <span className="text-xs font-medium">
-                          {comment.createdBy.name || comment.createdBy.email}
-                        </span>
-                        <span className="text-[10px] text-muted-foreground">
-                          {formatTime(comment.createdAt)}
-                        </span>
-                        {user?.id === comment.createdBy._id && (
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-5 w-5 ml-auto opacity-0 group-hover:opacity-100 transition-opacity"
-                            onClick={() => handleDeleteComment(comment._id)}
+                {threads.map((comment) => {
+                  const replies = repliesByParent.get(comment._id) || [];
+                  const isCollapsed = collapsedThreads.has(comment._id);
+                  return (
+                    <div key={comment._id}>
+                      <TaskComment
+                        comment={comment}
+                        isAuthor={user?.id === comment.createdBy._id}
+                        highlighted={comment._id === highlightCommentId}
+                        projectId={projectId}
+                        members={members}
+                        onDelete={handleDeleteComment}
+                        onReply={() => handleReply(comment)}
+                        onEditDirtyChange={handleCommentEditDirtyChange}
+                      />
+                      {replies.length > 0 && (
+                        <div className="ml-10 mt-2">
+                          <button
+                            type="button"
+                            className="flex items-center gap-1 text-[11px] font-medium text-primary hover:underline"
+                            onClick={() => toggleThread(comment._id)}
                           >
-                            <Trash2 className="h-3 w-3 text-muted-foreground hover:text-destructive" />
-                          </Button>
-                        )}
-                      </div>
-                      <p className="text-sm text-muted-foreground mt-0.5 leading-relaxed">
-                        {comment.content}
-                      </p>
+                            {isCollapsed ? (
+                              <ChevronRight className="h-3 w-3" />
+                            ) : (
+                              <ChevronDown className="h-3 w-3" />
+                            )}
+                            {isCollapsed ? "Show" : "Hide"} {replies.length}{" "}
+                            {replies.length === 1 ? "reply" : "replies"}
+                          </button>
+                          {!isCollapsed && (
+                            <div className="mt-2 space-y-3 border-l pl-3">
+                              {replies.map((reply) => (
+                                <TaskComment
+                                  key={reply._id}
+                                  comment={reply}
+                                  isAuthor={user?.id === reply.createdBy._id}
+                                  highlighted={reply._id === highlightCommentId}
+                                  projectId={projectId}
+                                  members={members}
+                                  onDelete={handleDeleteComment}
+                                  onReply={() => handleReply(comment)}
+                                  onEditDirtyChange={handleCommentEditDirtyChange}
+                                />
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
                 <div ref={commentsEndRef} />
               </div>
             )}
           </div>
 
+          {/* Typing Indicator */}
+          {otherTypingUsers.length > 0 && (
+            <div className="px-5 py-1 text-[11px] text-muted-foreground italic">
+              {formatTypingUsers(otherTypingUsers)}
+            </div>
+          )}
+
           {/* Fixed Comment Input */}
-          <form onSubmit={handleAddComment} className="px-5 py-3 border-t flex items-center gap-2 bg-background">
-            <Avatar className="h-7 w-7 shrink-0">
+          {replyTo && (
+            <div className="px-5 pt-2 border-t flex items-center gap-2 text-xs text-muted-foreground bg-background">
+              <Reply className="h-3 w-3" />
+              <span className="truncate">
+                Replying to{" "}
+                <span className="font-medium text-foreground">
+                  {replyTo.createdBy.name || replyTo.createdBy.email}
+                </span>
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-5 w-5 ml-auto"
+                onClick={() => setReplyTo(null)}
+              >
+                <X className="h-3 w-3" />
+                <span className="sr-only">Cancel reply</span>
+              </Button>
+            </div>
+          )}
+          <form
+            onSubmit={handleAddComment}
+            className={`px-5 py-3 flex items-end gap-2 bg-background ${replyTo ? "" : "border-t"}`}
+          >
+            <Avatar className="h-7 w-7 shrink-0 mb-1">
               <AvatarFallback className="text-[10px] bg-primary text-primary-foreground">
                 {user?.name ? getInitials(user.name, user.email || "") : "?"}
               </AvatarFallback>
             </Avatar>
-            <Input
-              placeholder="Add a comment..."
+            <MentionEditor
+              members={members}
+              placeholder={
+                replyTo ? "Write a reply... (Ctrl+Enter to send)" : "Add a comment... (Ctrl+Enter to send)"
+              }
+              textareaRef={commentInputRef}
               value={newComment}
-              onChange={(e) => setNewComment(e.target.value)}
-              className="flex-1 h-8 text-sm"
+              onChange={handleCommentChange}
+              onSuggestionsOpenChange={handleComposerSuggestionsOpenChange}
+              rows={2}
+              className="flex-1 min-w-0"
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+                  e.preventDefault();
+                  e.currentTarget.form?.requestSubmit();
+                }
+              }}
             />
             <Button
               type="submit"
@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Flag, SlidersHorizontal } from "lucide-react";
+import { TaskStatus } from "@/lib/enums";
+import {
+  TaskFilters,
+  defaultTaskFilters,
+  countActiveTaskFilters,
+} from "@/lib/task-filters";
+import type { Member } from "@/components/project-card";
+import { taskPriorityConfig } from "@/components/task-card";
+
+interface TaskFiltersPopoverProps {
+  filters: TaskFilters;
+  members: Member[];
+  onApply: (filters: TaskFilters) => void;
+}
+
+export function TaskFiltersPopover({
+  filters,
+  members,
+  onApply,
+}: TaskFiltersPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<TaskFilters>(filters);
+
+  const activeFilterCount = countActiveTaskFilters(filters);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Start each edit from the applied filters
+    if (nextOpen) setDraft(filters);
+    setOpen(nextOpen);
+  };
+
+  const handleApply = () => {
+    onApply(draft);
+    setOpen(false);
+  };
+
+  const handleReset = () => {
+    // Keep the text query - it has its own input on the page
+    onApply({ ...defaultTaskFilters, q: filters.q });
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <SlidersHorizontal className="h-4 w-4" />
+          Filters
+          {activeFilterCount > 0 && (
+            <Badge variant="secondary" className="ml-1 h-5 w-5 p-0 flex items-center justify-center text-xs">
+              {activeFilterCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end">
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium">Filters</h4>
+            {activeFilterCount > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-auto p-0 text-xs text-muted-foreground hover:text-foreground"
+                onClick={handleReset}
+              >
+                Reset all
+              </Button>
+            )}
+          </div>
+
+          {/* Status Filter */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Status</label>
+            <Select
+              value={draft.status}
+              onValueChange={(value) => setDraft((f) => ({ ...f, status: value as TaskFilters["status"] }))}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All Statuses</SelectItem>
+                <SelectItem value={TaskStatus.OPEN}>Open</SelectItem>
+                <SelectItem value={TaskStatus.IN_PROGRESS}>In Progress</SelectItem>
+                <SelectItem value={TaskStatus.ON_HOLD}>On Hold</SelectItem>
+                <SelectItem value={TaskStatus.CLOSED}>Closed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Priority Filter */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Priority</label>
+            <Select
+              value={draft.priority}
+              onValueChange={(value) => setDraft((f) => ({ ...f, priority: value as TaskFilters["priority"] }))}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All Priorities</SelectItem>
+                {Object.entries(taskPriorityConfig).map(([value, config]) => (
+                  <SelectItem key={value} value={value}>
+                    <Flag className={`h-3.5 w-3.5 ${config.iconColor}`} />
+                    {config.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Assignee Filter */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Assignee</label>
+            <Select
+              value={draft.assignee}
+              onValueChange={(value) => setDraft((f) => ({ ...f, assignee: value }))}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">Anyone</SelectItem>
+                <SelectItem value="me">Assigned to me</SelectItem>
+                <SelectItem value="unassigned">Unassigned</SelectItem>
+                {members.map((m) => (
+                  <SelectItem key={m._id} value={m._id}>
+                    {m.name || m.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Creator Filter */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Created by</label>
+            <Select
+              value={draft.createdBy}
+              onValueChange={(value) => setDraft((f) => ({ ...f, createdBy: value }))}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">Anyone</SelectItem>
+                <SelectItem value="me">Me</SelectItem>
+                {members.map((m) => (
+                  <SelectItem key={m._id} value={m._id}>
+                    {m.name || m.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Date Ranges */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Created between</label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={draft.createdFrom}
+                max={draft.createdTo || undefined}
+                onChange={(e) => setDraft((f) => ({ ...f, createdFrom: e.target.value }))}
+              />
+              <Input
+                type="date"
+                value={draft.createdTo}
+                min={draft.createdFrom || undefined}
+                onChange={(e) => setDraft((f) => ({ ...f, createdTo: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Updated between</label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={draft.updatedFrom}
+                max={draft.updatedTo || undefined}
+                onChange={(e) => setDraft((f) => ({ ...f, updatedFrom: e.target.value }))}
+              />
+              <Input
+                type="date"
+                value={draft.updatedTo}
+                min={draft.updatedFrom || undefined}
+                onChange={(e) => setDraft((f) => ({ ...f, updatedTo: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          {/* Sort */}
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Sort by</label>
+              <Select
+                value={draft.sortBy}
+                onValueChange={(value) => setDraft((f) => ({ ...f, sortBy: value as TaskFilters["sortBy"] }))}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="createdAt">Created Date</SelectItem>
+                  <SelectItem value="updatedAt">Last Updated</SelectItem>
+                  <SelectItem value="title">Title</SelectItem>
+                  <SelectItem value="status">Status</SelectItem>
+                  <SelectItem value="priority">Priority</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Order</label>
+              <Select
+                value={draft.sortOrder}
+                onValueChange={(value) => setDraft((f) => ({ ...f, sortOrder: value as TaskFilters["sortOrder"] }))}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="desc">Descending</SelectItem>
+                  <SelectItem value="asc">Ascending</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Apply Button */}
+          <Button className="w-full" onClick={handleApply}>
+            Apply Filters
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
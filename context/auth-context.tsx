@@ -8,8 +8,14 @@ import {
   ReactNode,
   useEffect,
 } from "react";
-import { getAccessToken, removeAccessToken } from "@/lib/cookies";
 import { connectSocket, disconnectSocket } from "@/lib/socket";
+import { clearOfflineData } from "@/lib/offline";
+import { fetchWithRefresh } from "@/lib/session";
+import {
+  getBackendStatus,
+  retryWhileWaking,
+  subscribeBackendStatus,
+} from "@/lib/backend-status";
 
 interface User {
   id: string;
@@ -24,56 +30,106 @@ interface AuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
   login: (user: User) => void;
-  logout: () => void;
+  logout: () => Promise<void>;
   setUser: (user: User | null) => void;
 }
 
+// Backoff for retrying the session check while the backend errors
+const SESSION_RETRY_MS = 2000;
+const MAX_SESSION_RETRY_MS = 30_000;
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Only the server can clear the HttpOnly session cookies. Until it has, the proxy
+// still sees a session and would send /login straight back to the app.
+function endServerSession(): Promise<void> {
+  return fetch("/api/auth/logout", { method: "POST" }).then(
+    () => undefined,
+    () => {
+      // Ignore errors, still logout locally
+    }
+  );
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Check for existing session on mount
+  // Check for existing session on mount - the session cookie is HttpOnly,
+  // so the profile request is the only way to find out whether we have one.
+  // An access token that expired while the app was closed is refreshed here too, and a
+  // sleeping backend is waited for rather than mistaken for a missing session.
   useEffect(() => {
-    const token = getAccessToken();
-    if (token) {
-      // If token exists, fetch user profile
-      fetch("/api/auth/profile")
-        .then((res) => res.json())
-        .then((data) => {
-          if (data.success && data.user) {
-            setUser(data.user);
-            // Connect socket when user is authenticated
-            connectSocket(token);
-          }
-        })
-        .catch(() => {
-          // Token invalid, clear it
-          removeAccessToken();
-        })
-        .finally(() => {
+    let isActive = true;
+    let isChecking = false;
+    let retryDelay = SESSION_RETRY_MS;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const checkSession = async () => {
+      if (!isActive || isChecking) return;
+      isChecking = true;
+      clearTimeout(retryTimer);
+      try {
+        const res = await retryWhileWaking(() => fetchWithRefresh("/api/auth/profile"));
+        if (!isActive) return;
+        if (res.status === 401) {
+          // fetchWithRefresh already tried a refresh, so the session is over. Clear the
+          // stale cookies so the guards' redirect to /login isn't bounced back.
+          isActive = false;
+          await endServerSession();
           setIsLoading(false);
-        });
-    } else {
-      setIsLoading(false);
-    }
+          return;
+        }
+        const data = await res.json();
+        if (isActive && res.ok && data.success && data.user) {
+          isActive = false;
+          setUser(data.user);
+          // Connect socket when user is authenticated
+          connectSocket();
+          setIsLoading(false);
+          return;
+        }
+      } catch {
+        // Unreachable or an invalid answer - no reason to think the session is gone
+      } finally {
+        isChecking = false;
+      }
+      // Keep the cookies and stay loading - the backend status banner explains the wait.
+      // Offline, the "online" event retries instead.
+      if (isActive && navigator.onLine) {
+        retryTimer = setTimeout(checkSession, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, MAX_SESSION_RETRY_MS);
+      }
+    };
+
+    checkSession();
+    window.addEventListener("online", checkSession);
+    const unsubscribeStatus = subscribeBackendStatus(() => {
+      if (getBackendStatus() === "healthy") checkSession();
+    });
+
+    return () => {
+      isActive = false;
+      clearTimeout(retryTimer);
+      window.removeEventListener("online", checkSession);
+      unsubscribeStatus();
+    };
   }, []);
 
   const login = useCallback((userData: User) => {
     setUser(userData);
     // Connect socket on login
-    const token = getAccessToken();
-    if (token) {
-      connectSocket(token);
-    }
+    connectSocket();
   }, []);
 
-  const logout = useCallback(() => {
-    setUser(null);
-    removeAccessToken();
+  const logout = useCallback(async () => {
     // Disconnect socket on logout
     disconnectSocket();
+    // Cached data and unsynced changes belong to this user
+    clearOfflineData();
+    // Cookies first - the page guards redirect to /login as soon as the user is cleared
+    await endServerSession();
+    setUser(null);
   }, []);
 
   const isAuthenticated = user !== null;
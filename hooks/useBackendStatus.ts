@@ -0,0 +1,17 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import {
+    getBackendStatus,
+    getWakingSince,
+    subscribeBackendStatus,
+} from "@/lib/backend-status";
+
+/**
+ * Whether the backend is up, waking from a cold start, or not responding at all
+ */
+export function useBackendStatus() {
+    const status = useSyncExternalStore(subscribeBackendStatus, getBackendStatus, () => "unknown" as const);
+    const wakingSince = useSyncExternalStore(subscribeBackendStatus, getWakingSince, () => null);
+    return { status, wakingSince };
+}
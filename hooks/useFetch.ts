@@ -2,14 +2,35 @@
 
 import { useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
-import { getAccessToken, removeAccessToken } from "@/lib/cookies";
 import { useAuth } from "@/context/auth-context";
+import { MUTATION_ID_HEADER, createMutationId, getUpdatedEntityId } from "@/lib/mutations";
+import {
+    QueuedMethod,
+    cacheResponse,
+    enqueueMutation,
+    getCachedResponse,
+    getMutationTarget,
+    hasQueuedMutations,
+    isCacheableRequest,
+} from "@/lib/offline";
+import { fetchWithRefresh } from "@/lib/session";
+import { getCurrentPath, getLoginUrl } from "@/lib/routes";
+import { isWakingStatus, retryWhileWaking, waitForBackend } from "@/lib/backend-status";
 
 import { toast } from "sonner";
 
 interface FetchOptions extends RequestInit {
-    requireAuth?: boolean;
     showErrorToast?: boolean;
+    // Defaults to a fresh ID for non-GET requests; pass one to recognise the socket echo
+    mutationId?: string;
+    // Task a comment change belongs to, for the pending-sync indicator if it's queued offline
+    offlineTaskId?: string;
+}
+
+// Returned in place of the API response when a mutation is queued to sync later
+export interface QueuedResponse {
+    success: true;
+    queued: true;
 }
 
 interface UseFetchResult<T> {
@@ -21,7 +42,8 @@ interface UseFetchResult<T> {
 
 /**
  * Custom fetch hook with 401 interceptor
- * Automatically handles authentication headers and redirects on 401
+ * Requests are authenticated by the HttpOnly session cookie. An expired access token is
+ * refreshed and the request retried; redirects to login only if the session can't be renewed
  */
 export function useFetch<T = unknown>(): UseFetchResult<T> {
     const [data, setData] = useState<T | null>(null);
@@ -36,38 +58,84 @@ export function useFetch<T = unknown>(): UseFetchResult<T> {
             setError(null);
 
             try {
-                const { requireAuth = true, showErrorToast = true, ...fetchOptions } = options;
+                const {
+                    showErrorToast = true,
+                    mutationId,
+                    offlineTaskId,
+                    ...fetchOptions
+                } = options;
 
                 const headers: HeadersInit = {
                     "Content-Type": "application/json",
                     ...(options.headers || {}),
                 };
 
-                // Add authorization header if required
-                if (requireAuth) {
-                    const token = getAccessToken();
-                    if (token) {
-                        (headers as Record<string, string>)["Authorization"] =
-                            `Bearer ${token}`;
+                // Tag mutations so their socket events can be matched back to this tab
+                const method = (fetchOptions.method || "GET").toUpperCase();
+                const isMutation = method !== "GET" && method !== "HEAD";
+                const requestMutationId = isMutation
+                    ? mutationId ?? createMutationId(getUpdatedEntityId(url, method))
+                    : null;
+                if (requestMutationId) {
+                    (headers as Record<string, string>)[MUTATION_ID_HEADER] = requestMutationId;
+                }
+
+                // Task/comment changes made offline are queued and replayed in order on reconnect
+                const queueMutation = async (): Promise<T> => {
+                    await enqueueMutation({
+                        id: requestMutationId!,
+                        url,
+                        method: method as QueuedMethod,
+                        body: typeof fetchOptions.body === "string" ? fetchOptions.body : undefined,
+                        taskId: offlineTaskId,
+                    });
+                    const queued: QueuedResponse = { success: true, queued: true };
+                    return queued as T;
+                };
+                const canQueue = isMutation && getMutationTarget(url) !== null;
+                const canUseCache = method === "GET" && isCacheableRequest(url);
+
+                // Queue behind changes that are still waiting, so they reach the server in order
+                if (canQueue && (!navigator.onLine || hasQueuedMutations())) {
+                    return await queueMutation();
+                }
+                if (canUseCache && !navigator.onLine) {
+                    const cached = await getCachedResponse<T>(url);
+                    if (cached) {
+                        setData(cached);
+                        return cached;
                     }
                 }
 
-                const response = await fetch(url, {
-                    ...fetchOptions,
-                    headers,
-                });
+                let response: Response;
+                try {
+                    const send = () => fetchWithRefresh(url, { ...fetchOptions, headers });
+                    // Reads wait out a cold start and retry; a mutation isn't safely repeatable
+                    response = isMutation ? await send() : await retryWhileWaking(send);
+                } catch (err) {
+                    // Network failure - the connection dropped before the browser noticed
+                    if (canQueue) return await queueMutation();
+                    const cached = canUseCache ? await getCachedResponse<T>(url) : null;
+                    if (cached) {
+                        setData(cached);
+                        return cached;
+                    }
+                    throw err;
+                }
 
-                // Handle 401 - Unauthorized
+                // Handle 401 - the refresh token was rejected too
                 if (response.status === 401) {
-                    logout();
-                    removeAccessToken();
-                    router.push("/login");
+                    await logout();
+                    router.push(getLoginUrl(getCurrentPath()));
                     const msg = "Session expired. Please login again.";
                     setError(msg);
                     if (showErrorToast) toast.error(msg);
                     return null;
                 }
 
+                // Still show the wake-up banner, even though the change itself failed
+                if (isMutation && isWakingStatus(response.status)) waitForBackend();
+
                 const result = await response.json();
 
                 if (!response.ok) {
@@ -77,6 +145,7 @@ export function useFetch<T = unknown>(): UseFetchResult<T> {
                     return null;
                 }
 
+                if (canUseCache) cacheResponse(url, result);
                 setData(result);
                 return result;
             } catch (err) {
@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "scroll", "touchstart"] as const;
+
+/**
+ * Becomes true after `timeoutMs` without user activity, or while the tab is hidden
+ */
+export function useIdle(timeoutMs: number): boolean {
+    const [isIdle, setIsIdle] = useState(false);
+
+    useEffect(() => {
+        let timer: ReturnType<typeof setTimeout>;
+
+        const resetTimer = () => {
+            clearTimeout(timer);
+            timer = setTimeout(() => setIsIdle(true), timeoutMs);
+        };
+
+        const handleActivity = () => {
+            if (document.hidden) return;
+            setIsIdle(false);
+            resetTimer();
+        };
+
+        const handleVisibilityChange = () => {
+            if (document.hidden) {
+                clearTimeout(timer);
+                setIsIdle(true);
+            } else {
+                handleActivity();
+            }
+        };
+
+        resetTimer();
+        ACTIVITY_EVENTS.forEach((event) =>
+            window.addEventListener(event, handleActivity, { passive: true })
+        );
+        document.addEventListener("visibilitychange", handleVisibilityChange);
+
+        return () => {
+            clearTimeout(timer);
+            ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+            document.removeEventListener("visibilitychange", handleVisibilityChange);
+        };
+    }, [timeoutMs]);
+
+    return isIdle;
+}
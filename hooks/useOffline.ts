@@ -0,0 +1,76 @@
+"use client";
+
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import {
+    QueuedMutation,
+    SyncResult,
+    getIsSyncing,
+    getQueuedMutations,
+    subscribeMutationQueued,
+    subscribeOfflineQueue,
+    subscribeQueueSynced,
+} from "@/lib/offline";
+
+const EMPTY_QUEUE: QueuedMutation[] = [];
+
+function subscribeOnlineStatus(listener: () => void): () => void {
+    window.addEventListener("online", listener);
+    window.addEventListener("offline", listener);
+    return () => {
+        window.removeEventListener("online", listener);
+        window.removeEventListener("offline", listener);
+    };
+}
+
+/**
+ * Whether the browser currently has a network connection
+ */
+export function useOnlineStatus() {
+    return useSyncExternalStore(subscribeOnlineStatus, () => navigator.onLine, () => true);
+}
+
+/**
+ * Mutations waiting to be sent, and whether a replay is in progress
+ */
+export function useOfflineQueue() {
+    const queue = useSyncExternalStore(subscribeOfflineQueue, getQueuedMutations, () => EMPTY_QUEUE);
+    const isSyncing = useSyncExternalStore(subscribeOfflineQueue, getIsSyncing, () => false);
+    return { queue, isSyncing };
+}
+
+/**
+ * Whether the task has changes that haven't reached the server yet
+ */
+export function usePendingSync(taskId: string) {
+    return useSyncExternalStore(
+        subscribeOfflineQueue,
+        () => getQueuedMutations().some((mutation) => mutation.taskId === taskId),
+        () => false
+    );
+}
+
+/**
+ * Runs `onQueued` for each mutation queued while offline, so the change can be shown locally
+ */
+export function useMutationQueued(onQueued: (mutation: QueuedMutation) => void) {
+    const callbackRef = useRef(onQueued);
+
+    useEffect(() => {
+        callbackRef.current = onQueued;
+    }, [onQueued]);
+
+    useEffect(() => subscribeMutationQueued((mutation) => callbackRef.current(mutation)), []);
+}
+
+/**
+ * Runs `onSynced` after queued mutations were replayed, so state can be refetched
+ */
+export function useOfflineSynced(onSynced: (result: SyncResult) => void) {
+    const callbackRef = useRef(onSynced);
+
+    useEffect(() => {
+        callbackRef.current = onSynced;
+    }, [onSynced]);
+
+    useEffect(() => subscribeQueueSynced((result) => callbackRef.current(result)), []);
+}
@@ -1,46 +1,69 @@
 "use client";
 
-import { useEffect, useCallback } from "react";
+import { useEffect, useCallback, useRef, useState, useSyncExternalStore } from "react";
 import {
-    getSocket,
+    getConnectionState,
+    subscribeConnectionState,
+    subscribeReconnect,
     joinProjectRoom,
     leaveProjectRoom,
     joinTaskRoom,
     leaveTaskRoom,
+    emitCommentTyping,
+    joinUserRoom,
+    leaveUserRoom,
+    joinPresence,
+    updatePresence,
+    leavePresence,
+    onServerEvent,
 } from "@/lib/socket";
+import type {
+    CommentDeletePayload,
+    CommentPayload,
+    CommentTypingPayload,
+    MemberAddedPayload,
+    MemberRemovedPayload,
+    NotificationPayload,
+    PresenceScope,
+    PresenceStatePayload,
+    PresenceStatus,
+    PresenceViewer,
+    ProjectDeletePayload,
+    ProjectPayload,
+    TaskDeletePayload,
+    TaskPayload,
+    TypingUser,
+} from "@/lib/socket-events";
+import { getMutationMeta, isSupersededMutation, MutationMeta } from "@/lib/mutations";
+import { useIdle } from "@/hooks/useIdle";
 import type { Task } from "@/components/task-card";
+import type { Comment } from "@/components/task-comment";
+import type { Project, Member } from "@/components/project-card";
+import type { UserNotification } from "@/components/notification-center";
 
-interface Comment {
-    _id: string;
-    content: string;
-    task: string;
-    createdBy: {
-        _id: string;
-        name: string;
-        email: string;
-    };
-    createdAt: string;
-    updatedAt: string;
-}
-
-interface TaskUpdatePayload {
-    task: Task;
-}
-
-interface TaskDeletePayload {
-    taskId: string;
+/**
+ * Current socket connection state, for "Reconnecting…" / "Back online" UI
+ */
+export function useConnectionState() {
+    return useSyncExternalStore(
+        subscribeConnectionState,
+        getConnectionState,
+        () => "disconnected" as const
+    );
 }
 
-interface CommentCreatePayload {
-    comment: Comment;
-}
+/**
+ * Runs `onReconnect` after the socket reconnects, so state that may have
+ * missed events while offline can be refetched
+ */
+export function useSocketReconnect(onReconnect: () => void) {
+    const callbackRef = useRef(onReconnect);
 
-interface CommentUpdatePayload {
-    comment: Comment;
-}
+    useEffect(() => {
+        callbackRef.current = onReconnect;
+    }, [onReconnect]);
 
-interface CommentDeletePayload {
-    commentId: string;
+    useEffect(() => subscribeReconnect(() => callbackRef.current()), []);
 }
 
 /**
@@ -49,9 +72,9 @@ interface CommentDeletePayload {
 export function useTaskUpdates(
     projectId: string | null,
     callbacks: {
-        onTaskCreated?: (task: Task) => void;
-        onTaskUpdated?: (task: Task) => void;
-        onTaskDeleted?: (taskId: string) => void;
+        onTaskCreated?: (task: Task, meta: MutationMeta) => void;
+        onTaskUpdated?: (task: Task, meta: MutationMeta) => void;
+        onTaskDeleted?: (taskId: string, meta: MutationMeta) => void;
     }
 ) {
     const { onTaskCreated, onTaskUpdated, onTaskDeleted } = callbacks;
@@ -59,39 +82,41 @@ export function useTaskUpdates(
     useEffect(() => {
         if (!projectId) return;
 
-        const socket = getSocket();
-        if (!socket) return;
-
         // Join project room
         joinProjectRoom(projectId);
 
-        // Event handlers
-        const handleTaskCreated = (data: TaskUpdatePayload) => {
+        // Events are shared by every room this browser is in, so ignore other projects' tasks
+        const handleTaskCreated = (data: TaskPayload) => {
             console.log("[Socket] task:created", data);
-            onTaskCreated?.(data.task);
+            if (data.task.project !== projectId) return;
+            onTaskCreated?.(data.task, getMutationMeta(data));
         };
 
-        const handleTaskUpdated = (data: TaskUpdatePayload) => {
+        const handleTaskUpdated = (data: TaskPayload) => {
             console.log("[Socket] task:updated", data);
-            onTaskUpdated?.(data.task);
+            if (data.task.project !== projectId) return;
+            // A later local update to this task is already shown - its own echo will follow
+            if (isSupersededMutation(data.mutationId, data.task._id)) return;
+            onTaskUpdated?.(data.task, getMutationMeta(data));
         };
 
         const handleTaskDeleted = (data: TaskDeletePayload) => {
             console.log("[Socket] task:deleted", data);
-            onTaskDeleted?.(data.taskId);
+            if (data.projectId && data.projectId !== projectId) return;
+            onTaskDeleted?.(data.taskId, getMutationMeta(data));
         };
 
         // Subscribe to events
-        socket.on("task:created", handleTaskCreated);
-        socket.on("task:updated", handleTaskUpdated);
-        socket.on("task:deleted", handleTaskDeleted);
+        const unsubscribers = [
+            onServerEvent("task:created", handleTaskCreated),
+            onServerEvent("task:updated", handleTaskUpdated),
+            onServerEvent("task:deleted", handleTaskDeleted),
+        ];
 
         // Cleanup
         return () => {
             leaveProjectRoom(projectId);
-            socket.off("task:created", handleTaskCreated);
-            socket.off("task:updated", handleTaskUpdated);
-            socket.off("task:deleted", handleTaskDeleted);
+            unsubscribers.forEach((unsubscribe) => unsubscribe());
         };
     }, [projectId, onTaskCreated, onTaskUpdated, onTaskDeleted]);
 }
@@ -102,9 +127,9 @@ export function useTaskUpdates(
 export function useCommentUpdates(
     taskId: string | null,
     callbacks: {
-        onCommentCreated?: (comment: Comment) => void;
-        onCommentUpdated?: (comment: Comment) => void;
-        onCommentDeleted?: (commentId: string) => void;
+        onCommentCreated?: (comment: Comment, meta: MutationMeta) => void;
+        onCommentUpdated?: (comment: Comment, meta: MutationMeta) => void;
+        onCommentDeleted?: (commentId: string, meta: MutationMeta) => void;
     }
 ) {
     const { onCommentCreated, onCommentUpdated, onCommentDeleted } = callbacks;
@@ -112,54 +137,126 @@ export function useCommentUpdates(
     useEffect(() => {
         if (!taskId) return;
 
-        const socket = getSocket();
-        if (!socket) return;
-
         // Join task room
         joinTaskRoom(taskId);
 
-        // Event handlers
-        const handleCommentCreated = (data: CommentCreatePayload) => {
-            onCommentCreated?.(data.comment);
+        // Events are shared by every room this browser is in, so ignore other tasks' comments
+        const handleCommentCreated = (data: CommentPayload) => {
+            if (data.comment.task !== taskId) return;
+            onCommentCreated?.(data.comment, getMutationMeta(data));
         };
 
-        const handleCommentUpdated = (data: CommentUpdatePayload) => {
-            onCommentUpdated?.(data.comment);
+        const handleCommentUpdated = (data: CommentPayload) => {
+            if (data.comment.task !== taskId) return;
+            if (isSupersededMutation(data.mutationId, data.comment._id)) return;
+            onCommentUpdated?.(data.comment, getMutationMeta(data));
         };
 
         const handleCommentDeleted = (data: CommentDeletePayload) => {
-            onCommentDeleted?.(data.commentId);
+            if (data.taskId && data.taskId !== taskId) return;
+            onCommentDeleted?.(data.commentId, getMutationMeta(data));
         };
 
         // Subscribe to events
-        socket.on("comment:created", handleCommentCreated);
-        socket.on("comment:updated", handleCommentUpdated);
-        socket.on("comment:deleted", handleCommentDeleted);
+        const unsubscribers = [
+            onServerEvent("comment:created", handleCommentCreated),
+            onServerEvent("comment:updated", handleCommentUpdated),
+            onServerEvent("comment:deleted", handleCommentDeleted),
+        ];
 
         // Cleanup
         return () => {
             leaveTaskRoom(taskId);
-            socket.off("comment:created", handleCommentCreated);
-            socket.off("comment:updated", handleCommentUpdated);
-            socket.off("comment:deleted", handleCommentDeleted);
+            unsubscribers.forEach((unsubscribe) => unsubscribe());
         };
     }, [taskId, onCommentCreated, onCommentUpdated, onCommentDeleted]);
 }
 
-import type { Project, Member } from "@/components/project-card";
+// At most one "typing" event per interval while the user keeps typing
+const TYPING_THROTTLE = 2000;
+// Typers are dropped if no further event arrives in time (e.g. they closed the tab)
+const TYPING_EXPIRY = 5000;
 
-interface ProjectUpdatePayload {
-    project: Project;
-}
+/**
+ * Hook for typing indicators in a task's comment thread.
+ * Returns who else is typing, plus throttled notifiers for the local composer.
+ */
+export function useCommentTyping(taskId: string | null) {
+    const [typing, setTyping] = useState<{ taskId: string; users: TypingUser[] } | null>(null);
+    const expiryTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+    const lastSentAt = useRef(0);
 
-interface MemberAddedPayload {
-    project: Project;
-    member: Member;
-}
+    useEffect(() => {
+        if (!taskId) return;
+
+        const timers = expiryTimers.current;
+
+        const removeUser = (userId: string) => {
+            clearTimeout(timers.get(userId));
+            timers.delete(userId);
+            setTyping((prev) =>
+                prev ? { ...prev, users: prev.users.filter((u) => u._id !== userId) } : prev
+            );
+        };
+
+        // Event handlers
+        const handleCommentTyping = (data: CommentTypingPayload) => {
+            if (data.taskId !== taskId) return;
+            if (!data.isTyping) {
+                removeUser(data.user._id);
+                return;
+            }
+            clearTimeout(timers.get(data.user._id));
+            timers.set(data.user._id, setTimeout(() => removeUser(data.user._id), TYPING_EXPIRY));
+            setTyping((prev) => {
+                const users = prev?.taskId === taskId ? prev.users : [];
+                return users.some((u) => u._id === data.user._id)
+                    ? prev
+                    : { taskId, users: [...users, data.user] };
+            });
+        };
 
-interface MemberRemovedPayload {
-    project: Project;
-    memberId: string;
+        const handleConnectionChange = () => {
+            if (getConnectionState() === "connected") return;
+            timers.forEach(clearTimeout);
+            timers.clear();
+            setTyping(null);
+        };
+
+        // Subscribe to events
+        const unsubscribe = onServerEvent("comment:typing", handleCommentTyping);
+        const unsubscribeConnection = subscribeConnectionState(handleConnectionChange);
+
+        // Cleanup
+        return () => {
+            if (lastSentAt.current) {
+                emitCommentTyping(taskId, false);
+                lastSentAt.current = 0;
+            }
+            timers.forEach(clearTimeout);
+            timers.clear();
+            unsubscribe();
+            unsubscribeConnection();
+        };
+    }, [taskId]);
+
+    const notifyTyping = useCallback(() => {
+        if (!taskId) return;
+        const now = Date.now();
+        if (now - lastSentAt.current < TYPING_THROTTLE) return;
+        lastSentAt.current = now;
+        emitCommentTyping(taskId, true);
+    }, [taskId]);
+
+    const stopTyping = useCallback(() => {
+        if (!taskId || !lastSentAt.current) return;
+        lastSentAt.current = 0;
+        emitCommentTyping(taskId, false);
+    }, [taskId]);
+
+    const typingUsers = typing?.taskId === taskId ? typing.users : [];
+
+    return { typingUsers, notifyTyping, stopTyping };
 }
 
 /**
@@ -168,9 +265,9 @@ interface MemberRemovedPayload {
 export function useProjectUpdates(
     projectId: string | null,
     callbacks: {
-        onProjectUpdated?: (project: Project) => void;
-        onMemberAdded?: (member: Member) => void;
-        onMemberRemoved?: (memberId: string) => void;
+        onProjectUpdated?: (project: Project, meta: MutationMeta) => void;
+        onMemberAdded?: (member: Member, meta: MutationMeta) => void;
+        onMemberRemoved?: (memberId: string, meta: MutationMeta) => void;
     }
 ) {
     const { onProjectUpdated, onMemberAdded, onMemberRemoved } = callbacks;
@@ -178,40 +275,193 @@ export function useProjectUpdates(
     useEffect(() => {
         if (!projectId) return;
 
-        const socket = getSocket();
-        if (!socket) return;
-
         // Join project room
         joinProjectRoom(projectId);
 
-        // Event handlers
-        const handleProjectUpdated = (data: ProjectUpdatePayload) => {
+        // Project events also arrive through the user's room for every project they're in
+        const handleProjectUpdated = (data: ProjectPayload) => {
             console.log("[Socket] project:updated", data);
-            onProjectUpdated?.(data.project);
+            if (data.project._id !== projectId) return;
+            if (isSupersededMutation(data.mutationId, data.project._id)) return;
+            onProjectUpdated?.(data.project, getMutationMeta(data));
         };
 
         const handleMemberAdded = (data: MemberAddedPayload) => {
             console.log("[Socket] member:added", data);
-            onMemberAdded?.(data.member);
+            if (data.project._id !== projectId) return;
+            onMemberAdded?.(data.member, getMutationMeta(data));
         };
 
         const handleMemberRemoved = (data: MemberRemovedPayload) => {
             console.log("[Socket] member:removed", data);
-            onMemberRemoved?.(data.memberId);
+            if (data.project._id !== projectId) return;
+            onMemberRemoved?.(data.memberId, getMutationMeta(data));
         };
 
         // Subscribe to events
-        socket.on("project:updated", handleProjectUpdated);
-        socket.on("member:added", handleMemberAdded);
-        socket.on("member:removed", handleMemberRemoved);
+        const unsubscribers = [
+            onServerEvent("project:updated", handleProjectUpdated),
+            onServerEvent("member:added", handleMemberAdded),
+            onServerEvent("member:removed", handleMemberRemoved),
+        ];
 
         // Cleanup
         return () => {
             leaveProjectRoom(projectId);
-            socket.off("project:updated", handleProjectUpdated);
-            socket.off("member:added", handleMemberAdded);
-            socket.off("member:removed", handleMemberRemoved);
+            unsubscribers.forEach((unsubscribe) => unsubscribe());
         };
     }, [projectId, onProjectUpdated, onMemberAdded, onMemberRemoved]);
 }
 
+/**
+ * Hook for real-time changes to the projects the current user can see,
+ * delivered through the per-user room
+ */
+export function useProjectListUpdates(
+    userId: string | null,
+    callbacks: {
+        onProjectCreated?: (project: Project, meta: MutationMeta) => void;
+        onProjectUpdated?: (project: Project, meta: MutationMeta) => void;
+        onProjectDeleted?: (projectId: string, meta: MutationMeta) => void;
+        onMemberAdded?: (project: Project, member: Member, meta: MutationMeta) => void;
+        onMemberRemoved?: (project: Project, memberId: string, meta: MutationMeta) => void;
+    }
+) {
+    const { onProjectCreated, onProjectUpdated, onProjectDeleted, onMemberAdded, onMemberRemoved } =
+        callbacks;
+
+    useEffect(() => {
+        if (!userId) return;
+
+        // Join user room
+        joinUserRoom(userId);
+
+        // Event handlers
+        const handleProjectCreated = (data: ProjectPayload) => {
+            console.log("[Socket] project:created", data);
+            onProjectCreated?.(data.project, getMutationMeta(data));
+        };
+
+        const handleProjectUpdated = (data: ProjectPayload) => {
+            console.log("[Socket] project:updated", data);
+            if (isSupersededMutation(data.mutationId, data.project._id)) return;
+            onProjectUpdated?.(data.project, getMutationMeta(data));
+        };
+
+        const handleProjectDeleted = (data: ProjectDeletePayload) => {
+            console.log("[Socket] project:deleted", data);
+            onProjectDeleted?.(data.projectId, getMutationMeta(data));
+        };
+
+        const handleMemberAdded = (data: MemberAddedPayload) => {
+            console.log("[Socket] member:added", data);
+            onMemberAdded?.(data.project, data.member, getMutationMeta(data));
+        };
+
+        const handleMemberRemoved = (data: MemberRemovedPayload) => {
+            console.log("[Socket] member:removed", data);
+            onMemberRemoved?.(data.project, data.memberId, getMutationMeta(data));
+        };
+
+        // Subscribe to events
+        const unsubscribers = [
+            onServerEvent("project:created", handleProjectCreated),
+            onServerEvent("project:updated", handleProjectUpdated),
+            onServerEvent("project:deleted", handleProjectDeleted),
+            onServerEvent("member:added", handleMemberAdded),
+            onServerEvent("member:removed", handleMemberRemoved),
+        ];
+
+        // Cleanup
+        return () => {
+            leaveUserRoom(userId);
+            unsubscribers.forEach((unsubscribe) => unsubscribe());
+        };
+    }, [userId, onProjectCreated, onProjectUpdated, onProjectDeleted, onMemberAdded, onMemberRemoved]);
+}
+
+/**
+ * Hook for real-time notifications addressed to the current user
+ */
+export function useNotificationUpdates(
+    userId: string | null,
+    callbacks: {
+        onNotificationCreated?: (notification: UserNotification) => void;
+    }
+) {
+    const { onNotificationCreated } = callbacks;
+
+    useEffect(() => {
+        if (!userId) return;
+
+        // Join user room
+        joinUserRoom(userId);
+
+        // Event handlers
+        const handleNotificationCreated = (data: NotificationPayload) => {
+            console.log("[Socket] notification:created", data);
+            onNotificationCreated?.(data.notification);
+        };
+
+        // Subscribe to events
+        const unsubscribe = onServerEvent("notification:created", handleNotificationCreated);
+
+        // Cleanup
+        return () => {
+            leaveUserRoom(userId);
+            unsubscribe();
+        };
+    }, [userId, onNotificationCreated]);
+}
+
+// Viewers without activity for this long are shown as idle
+const PRESENCE_IDLE_TIMEOUT = 2 * 60 * 1000;
+
+/**
+ * Hook for live presence - announces the current user as viewing a project or task
+ * and returns everyone currently viewing it
+ */
+export function usePresence(scope: PresenceScope, id: string | null): PresenceViewer[] {
+    const [presence, setPresence] = useState<{ key: string; viewers: PresenceViewer[] } | null>(null);
+    const isIdle = useIdle(PRESENCE_IDLE_TIMEOUT);
+    const status: PresenceStatus = isIdle ? "idle" : "active";
+    const statusRef = useRef(status);
+    const key = `${scope}:${id}`;
+
+    useEffect(() => {
+        if (!id) return;
+
+        joinPresence(scope, id, statusRef.current);
+
+        // Event handlers
+        const handlePresenceState = (data: PresenceStatePayload) => {
+            if (data.scope !== scope || data.id !== id) return;
+            setPresence({ key: `${scope}:${id}`, viewers: data.viewers });
+        };
+
+        // Presence is meaningless without a connection - clear it until the leader
+        // re-announces it on reconnect and the server sends the new state
+        const handleConnectionChange = () => {
+            if (getConnectionState() !== "connected") setPresence(null);
+        };
+
+        // Subscribe to events
+        const unsubscribe = onServerEvent("presence:state", handlePresenceState);
+        const unsubscribeConnection = subscribeConnectionState(handleConnectionChange);
+
+        // Cleanup - the server hears about the leave once no tab still holds this presence
+        return () => {
+            leavePresence(scope, id);
+            unsubscribe();
+            unsubscribeConnection();
+        };
+    }, [scope, id]);
+
+    // After the join effect, so a new scope/id is joined before its first status update
+    useEffect(() => {
+        statusRef.current = status;
+        if (id) updatePresence(scope, id, status);
+    }, [scope, id, status]);
+
+    return presence?.key === key ? presence.viewers : [];
+}
@@ -0,0 +1,118 @@
+/**
+ * Cold-start handling. The backend runs on a free instance that sleeps when idle and takes
+ * 40-55s to start again, so instead of failing, reads wait for it to come up and retry.
+ */
+
+export type BackendStatus = "unknown" | "healthy" | "waking" | "unavailable";
+
+// What the BFF answers while the backend is asleep or still booting
+const WAKING_STATUSES = [502, 503, 504];
+// A health probe that hasn't answered by now is waiting on a cold start
+const SLOW_PROBE_MS = 1500;
+// Comfortably past the longest cold start before giving up
+const MAX_WAIT_MS = 90_000;
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 8000;
+const MAX_RETRIES = 2;
+
+let status: BackendStatus = "unknown";
+let wakingSince: number | null = null;
+let wakePromise: Promise<boolean> | null = null;
+const listeners = new Set<() => void>();
+
+function setStatus(next: BackendStatus): void {
+    if (status === next) return;
+    if (next === "waking") wakingSince = Date.now();
+    if (next === "healthy") wakingSince = null;
+    status = next;
+    listeners.forEach((listener) => listener());
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// "offline" when the request never left the browser - that's the connection, not a cold start
+async function probeBackend(): Promise<"up" | "down" | "offline"> {
+    try {
+        const response = await fetch("/api/health", { cache: "no-store" });
+        return response.ok ? "up" : "down";
+    } catch {
+        return "offline";
+    }
+}
+
+export function getBackendStatus(): BackendStatus {
+    return status;
+}
+
+// When the current wake-up started, for showing progress
+export function getWakingSince(): number | null {
+    return wakingSince;
+}
+
+export function subscribeBackendStatus(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export function isWakingStatus(responseStatus: number): boolean {
+    return WAKING_STATUSES.includes(responseStatus);
+}
+
+/**
+ * Polls the health route with backoff until the backend answers. Concurrent callers share
+ * one wait; resolves to false if it still isn't up after a minute and a half, or right
+ * away when the browser is offline.
+ */
+export function waitForBackend(): Promise<boolean> {
+    if (wakePromise) return wakePromise;
+    if (!navigator.onLine) return Promise.resolve(false);
+
+    wakePromise = (async () => {
+        const startedAt = Date.now();
+        let delay = INITIAL_BACKOFF_MS;
+        const slowProbe = setTimeout(() => setStatus("waking"), SLOW_PROBE_MS);
+
+        try {
+            while (true) {
+                const result = await probeBackend();
+                if (result === "up") {
+                    setStatus("healthy");
+                    return true;
+                }
+                // The offline indicator covers this - say nothing about the backend
+                if (result === "offline") {
+                    setStatus("unknown");
+                    return false;
+                }
+                if (Date.now() - startedAt + delay > MAX_WAIT_MS) {
+                    setStatus("unavailable");
+                    return false;
+                }
+                setStatus("waking");
+                await sleep(delay);
+                delay = Math.min(delay * 2, MAX_BACKOFF_MS);
+            }
+        } finally {
+            clearTimeout(slowProbe);
+            wakePromise = null;
+        }
+    })();
+    return wakePromise;
+}
+
+/**
+ * Sends an idempotent request, and if the backend turns out to be asleep, waits for it
+ * to wake and sends it again
+ */
+export async function retryWhileWaking(send: () => Promise<Response>): Promise<Response> {
+    let response = await send();
+    for (let attempt = 0; attempt < MAX_RETRIES && isWakingStatus(response.status); attempt++) {
+        if (!(await waitForBackend())) break;
+        response = await send();
+    }
+    return response;
+}
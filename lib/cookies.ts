@@ -1,25 +1,67 @@
 /**
- * Cookie utility functions for token management
+ * Session cookie settings for the auth routes. Both tokens are only ever set server-side
+ * as HttpOnly cookies, so client-side JS (and any injected script) can't read them.
+ * The refresh token is only sent to /api/auth; pages see a token-free session marker instead.
  */
 
-const ACCESS_TOKEN_KEY = "access_token";
-const TOKEN_MAX_AGE = 60 * 60; // 1 hour in seconds
+import { NextResponse } from "next/server";
 
-export function setAccessToken(token: string): void {
-    document.cookie = `${ACCESS_TOKEN_KEY}=${token}; path=/; max-age=${TOKEN_MAX_AGE}; SameSite=Strict`;
+export const ACCESS_TOKEN_KEY = "access_token";
+export const TOKEN_MAX_AGE = 60 * 60; // 1 hour in seconds
+
+export const REFRESH_TOKEN_KEY = "refresh_token";
+export const REFRESH_TOKEN_MAX_AGE = 60 * 60 * 24 * 30; // 30 days in seconds
+// Only the auth routes need the refresh token, so it isn't sent with every other request
+const REFRESH_TOKEN_PATH = "/api/auth";
+
+// Holds no secret - it only tells the proxy that a session exists, even once the access cookie expires
+export const SESSION_MARKER_KEY = "has_session";
+
+function cookieOptions(maxAge: number, path = "/") {
+    return {
+        httpOnly: true,
+        // Plain-http localhost can't hold Secure cookies in every browser
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "strict" as const,
+        path,
+        maxAge,
+    };
 }
 
-export function getAccessToken(): string | null {
-    const cookies = document.cookie.split(";");
-    for (const cookie of cookies) {
-        const [name, value] = cookie.trim().split("=");
-        if (name === ACCESS_TOKEN_KEY) {
-            return value || null;
-        }
-    }
-    return null;
+export function setAccessTokenCookie(response: NextResponse, token: string): void {
+    response.cookies.set(ACCESS_TOKEN_KEY, token, cookieOptions(TOKEN_MAX_AGE));
+}
+
+export function setRefreshTokenCookie(response: NextResponse, token: string): void {
+    response.cookies.set(
+        REFRESH_TOKEN_KEY,
+        token,
+        cookieOptions(REFRESH_TOKEN_MAX_AGE, REFRESH_TOKEN_PATH)
+    );
 }
 
-export function removeAccessToken(): void {
-    document.cookie = `${ACCESS_TOKEN_KEY}=; path=/; max-age=0; SameSite=Strict`;
+export function clearSessionCookies(response: NextResponse): void {
+    response.cookies.set(ACCESS_TOKEN_KEY, "", cookieOptions(0));
+    response.cookies.set(REFRESH_TOKEN_KEY, "", cookieOptions(0, REFRESH_TOKEN_PATH));
+    response.cookies.set(SESSION_MARKER_KEY, "", cookieOptions(0));
+}
+
+/**
+ * Passes an auth response through with its tokens moved from the body into the session cookies.
+ * `sessionCreated` tells the client whether it is now logged in - e.g. a signup may not be.
+ */
+export function sessionResponse(data: Record<string, unknown>, status: number): NextResponse {
+    const { accessToken, refreshToken, ...body } = data;
+    const response = NextResponse.json(
+        { ...body, sessionCreated: typeof accessToken === "string" },
+        { status }
+    );
+    if (typeof accessToken === "string") {
+        setAccessTokenCookie(response, accessToken);
+        // The marker lasts as long as the session can still be renewed
+        const maxAge = typeof refreshToken === "string" ? REFRESH_TOKEN_MAX_AGE : TOKEN_MAX_AGE;
+        response.cookies.set(SESSION_MARKER_KEY, "1", cookieOptions(maxAge));
+    }
+    if (typeof refreshToken === "string") setRefreshTokenCookie(response, refreshToken);
+    return response;
 }
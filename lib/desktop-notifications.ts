@@ -0,0 +1,105 @@
+/**
+ * Opt-in desktop notifications for activity that arrives while the app sits in a background tab.
+ * Preferences are per browser, so they live in localStorage rather than on the server.
+ */
+
+import { NotificationType } from "@/lib/enums";
+
+export type DesktopNotificationEvent = "assigned" | "mentioned" | "commented";
+
+export interface DesktopNotificationPreferences {
+    enabled: boolean;
+    events: Record<DesktopNotificationEvent, boolean>;
+    quietHours: {
+        enabled: boolean;
+        // "HH:MM", local time - may wrap past midnight
+        start: string;
+        end: string;
+    };
+}
+
+export const DEFAULT_DESKTOP_PREFERENCES: DesktopNotificationPreferences = {
+    enabled: false,
+    events: { assigned: true, mentioned: true, commented: true },
+    quietHours: { enabled: false, start: "22:00", end: "08:00" },
+};
+
+// Notification types without an entry never show on the desktop
+const eventByType: Partial<Record<NotificationType, DesktopNotificationEvent>> = {
+    [NotificationType.TASK_ASSIGNED]: "assigned",
+    [NotificationType.MENTIONED]: "mentioned",
+    [NotificationType.TASK_COMMENTED]: "commented",
+};
+
+// Shared by every tab, so a sheet focused in one tab silences the others too
+const FOCUSED_TASK_KEY = "focused-task";
+
+function getStorageKey(userId: string): string {
+    return `desktop-notifications:${userId}`;
+}
+
+export function isDesktopNotificationSupported(): boolean {
+    return typeof window !== "undefined" && "Notification" in window;
+}
+
+export function loadDesktopPreferences(userId: string): DesktopNotificationPreferences {
+    try {
+        const stored = localStorage.getItem(getStorageKey(userId));
+        if (!stored) return DEFAULT_DESKTOP_PREFERENCES;
+        const parsed = JSON.parse(stored) as Partial<DesktopNotificationPreferences>;
+        return {
+            ...DEFAULT_DESKTOP_PREFERENCES,
+            ...parsed,
+            events: { ...DEFAULT_DESKTOP_PREFERENCES.events, ...parsed.events },
+            quietHours: { ...DEFAULT_DESKTOP_PREFERENCES.quietHours, ...parsed.quietHours },
+        };
+    } catch {
+        return DEFAULT_DESKTOP_PREFERENCES;
+    }
+}
+
+export function saveDesktopPreferences(userId: string, preferences: DesktopNotificationPreferences): void {
+    localStorage.setItem(getStorageKey(userId), JSON.stringify(preferences));
+}
+
+export function isInQuietHours(
+    quietHours: DesktopNotificationPreferences["quietHours"],
+    now: Date = new Date()
+): boolean {
+    if (!quietHours.enabled || quietHours.start === quietHours.end) return false;
+    const time = `${String(now.getHours()).padStart(2, "0")}:${String(now.getMinutes()).padStart(2, "0")}`;
+    return quietHours.start < quietHours.end
+        ? time >= quietHours.start && time < quietHours.end
+        : time >= quietHours.start || time < quietHours.end;
+}
+
+/**
+ * Records the task whose sheet is open in a focused window - its activity is already on screen
+ */
+export function setFocusedTask(taskId: string): void {
+    localStorage.setItem(FOCUSED_TASK_KEY, taskId);
+}
+
+export function clearFocusedTask(taskId: string): void {
+    if (localStorage.getItem(FOCUSED_TASK_KEY) === taskId) {
+        localStorage.removeItem(FOCUSED_TASK_KEY);
+    }
+}
+
+/**
+ * Whether a notification of this type, about this task, should pop up on the desktop right now
+ */
+export function shouldShowDesktopNotification(
+    userId: string,
+    type: NotificationType,
+    taskId?: string
+): boolean {
+    if (!isDesktopNotificationSupported() || Notification.permission !== "granted") return false;
+
+    const preferences = loadDesktopPreferences(userId);
+    const event = eventByType[type];
+    if (!preferences.enabled || !event || !preferences.events[event]) return false;
+    if (isInQuietHours(preferences.quietHours)) return false;
+
+    return !taskId || localStorage.getItem(FOCUSED_TASK_KEY) !== taskId;
+}
@@ -23,3 +23,20 @@ export enum TaskStatus {
     ON_HOLD = "ON_HOLD",
     CLOSED = "CLOSED",
 }
+
+export enum TaskPriority {
+    URGENT = "URGENT",
+    HIGH = "HIGH",
+    MEDIUM = "MEDIUM",
+    LOW = "LOW",
+    NONE = "NONE",
+}
+
+export enum NotificationType {
+    TASK_ASSIGNED = "TASK_ASSIGNED",
+    MENTIONED = "MENTIONED",
+    TASK_STATUS_CHANGED = "TASK_STATUS_CHANGED",
+    MEMBER_ADDED = "MEMBER_ADDED",
+    // A comment on a task you created or are assigned
+    TASK_COMMENTED = "TASK_COMMENTED",
+}
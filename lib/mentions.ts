@@ -0,0 +1,35 @@
+/**
+ * @mention helpers for comment content.
+ * Mentions are stored inline as `@[Name](mention:userId)`.
+ */
+
+import type { Member } from "@/components/project-card";
+
+const MENTION_PATTERN = /@\[([^\]\n]+)\]\(mention:([A-Za-z0-9_-]+)\)/g;
+
+// Fragment links survive sanitizing, so mentions are rendered as `#mention-<id>` links
+export const MENTION_HREF_PREFIX = "#mention-";
+
+export function formatMention(member: Member): string {
+    const label = (member.name || member.email).replace(/[[\]\n]/g, "");
+    return `@[${label}](mention:${member._id})`;
+}
+
+export function extractMentionIds(content: string): string[] {
+    const ids = Array.from(content.matchAll(MENTION_PATTERN), (match) => match[2]);
+    return Array.from(new Set(ids));
+}
+
+/**
+ * Rewrites mentions as Markdown links the renderer turns into chips
+ */
+export function mentionsToLinks(content: string): string {
+    return content.replace(MENTION_PATTERN, `[@$1](${MENTION_HREF_PREFIX}$2)`);
+}
+
+/**
+ * Rewrites mentions as plain `@Name` text for non-Markdown previews
+ */
+export function mentionsToText(content: string): string {
+    return content.replace(MENTION_PATTERN, "@$1");
+}
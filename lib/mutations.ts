@@ -0,0 +1,102 @@
+/**
+ * Client mutation IDs - every create/update/delete sent through useFetch carries one,
+ * and the server echoes it in the resulting socket event so we can recognise our own
+ * changes without timing heuristics.
+ */
+
+export const MUTATION_ID_HEADER = "X-Mutation-Id";
+
+// Long enough to outlive any realistic socket delay
+const MUTATION_TTL = 10 * 60 * 1000;
+
+const localMutations = new Map<string, number>();
+// Latest local update per task/comment/project ID - echoes of earlier ones carry stale state
+const latestEntityMutations = new Map<string, string>();
+
+export interface MutationMeta {
+    mutationId?: string;
+    // The event echoes a mutation made from this tab
+    isLocal: boolean;
+}
+
+// randomUUID is only available in secure contexts (HTTPS or localhost)
+function randomUUID(): string {
+    if (typeof crypto.randomUUID === "function") return crypto.randomUUID();
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+    const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Pass the ID of the entity an update changes, so echoes of its earlier updates can be skipped
+ */
+export function createMutationId(entityId?: string): string {
+    const id = randomUUID();
+    trackMutationId(id, entityId);
+    return id;
+}
+
+/**
+ * Remembers an ID created elsewhere, e.g. a queued offline mutation restored after a reload
+ */
+export function trackMutationId(id: string, entityId?: string): void {
+    const now = Date.now();
+    localMutations.forEach((createdAt, existing) => {
+        if (now - createdAt > MUTATION_TTL) localMutations.delete(existing);
+    });
+    latestEntityMutations.forEach((mutationId, existingEntity) => {
+        if (!localMutations.has(mutationId)) latestEntityMutations.delete(existingEntity);
+    });
+    localMutations.set(id, now);
+    if (entityId) latestEntityMutations.set(entityId, id);
+}
+
+export function isLocalMutation(mutationId?: string | null): boolean {
+    return !!mutationId && localMutations.has(mutationId);
+}
+
+/**
+ * The echo of a local update to this entity that a later local update has already replaced.
+ * Applying it would roll the optimistic state back until the later echo arrives.
+ */
+export function isSupersededMutation(mutationId: string | undefined, entityId: string): boolean {
+    if (!isLocalMutation(mutationId)) return false;
+    const latest = latestEntityMutations.get(entityId);
+    return !!latest && latest !== mutationId;
+}
+
+export function getMutationMeta(payload: { mutationId?: string }): MutationMeta {
+    return { mutationId: payload.mutationId, isLocal: isLocalMutation(payload.mutationId) };
+}
+
+/**
+ * The entity an update request changes - the last path segment of e.g. /api/comments/:id
+ */
+export function getUpdatedEntityId(url: string, method: string): string | undefined {
+    if (method !== "PATCH") return undefined;
+    return url.split("?")[0].split("/").pop() || undefined;
+}
+
+/**
+ * Headers for forwarding the client's mutation ID from a BFF route to the API
+ */
+export function getMutationIdHeader(request: Request): Record<string, string> {
+    const mutationId = request.headers.get(MUTATION_ID_HEADER);
+    return mutationId ? { [MUTATION_ID_HEADER]: mutationId } : {};
+}
+
+/**
+ * Replaces the item with the same _id, or inserts it when it isn't in the list yet.
+ * Our own creations can arrive twice (HTTP response and socket echo) in either order.
+ */
+export function upsertById<T extends { _id: string }>(
+    list: T[],
+    item: T,
+    insert: (list: T[]) => T[] = (current) => [item, ...current]
+): T[] {
+    return list.some((existing) => existing._id === item._id)
+        ? list.map((existing) => (existing._id === item._id ? item : existing))
+        : insert(list);
+}
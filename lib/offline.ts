@@ -0,0 +1,425 @@
+/**
+ * Offline support - GET responses for projects, tasks and comments are cached in IndexedDB
+ * so pages still render without a connection, and task/comment mutations made while offline
+ * are queued there and replayed in order once we're back online.
+ */
+
+import { MUTATION_ID_HEADER, getUpdatedEntityId, trackMutationId } from "@/lib/mutations";
+import { fetchWithRefresh } from "@/lib/session";
+
+const DB_NAME = "task-manager-offline";
+const DB_VERSION = 2;
+const RESPONSE_STORE = "responses";
+const MUTATION_STORE = "mutations";
+
+// Placeholder IDs for tasks/comments created offline, swapped for the real ID on replay
+const OFFLINE_ID_PREFIX = "offline-";
+
+// Held while replaying, so two tabs coming back online don't both send the queue
+const REPLAY_LOCK = "task-manager-offline-replay";
+
+// Gateway errors mean the API is unreachable, not that the change was rejected
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+export type QueuedMethod = "POST" | "PATCH" | "DELETE";
+
+export interface QueuedMutation {
+    // Queue order - assigned by IndexedDB, so tabs queueing at once never share one
+    sequence: number;
+    // The mutation ID, reused on replay so the socket echo is still recognised as ours
+    id: string;
+    url: string;
+    method: QueuedMethod;
+    body?: string;
+    // Task the change belongs to, for the pending-sync indicator
+    taskId?: string;
+    queuedAt: number;
+}
+
+export interface MutationTarget {
+    resource: "task" | "comment";
+    // Project for task routes, task for comment creation
+    parentId?: string;
+    id?: string;
+}
+
+export interface SyncConflict {
+    mutation: QueuedMutation;
+    message: string;
+}
+
+export interface SyncResult {
+    synced: number;
+    conflicts: SyncConflict[];
+    // Left queued because we went offline again or the API is unreachable
+    remaining: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+let queue: QueuedMutation[] = [];
+let queueLoaded: Promise<void> | null = null;
+let isSyncing = false;
+const queueListeners = new Set<() => void>();
+const queuedListeners = new Set<(mutation: QueuedMutation) => void>();
+const syncedListeners = new Set<(result: SyncResult) => void>();
+
+// IndexedDB
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === "undefined") {
+                reject(new Error("IndexedDB is not available"));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                if (event.oldVersion < 1) db.createObjectStore(RESPONSE_STORE);
+
+                const createMutationStore = () =>
+                    db.createObjectStore(MUTATION_STORE, { keyPath: "sequence", autoIncrement: true });
+                if (!db.objectStoreNames.contains(MUTATION_STORE)) {
+                    createMutationStore();
+                    return;
+                }
+                // v1 numbered the queue from each tab's own copy - carry it over to a store
+                // that assigns sequences itself
+                const existing = request.transaction!.objectStore(MUTATION_STORE).getAll();
+                existing.onsuccess = () => {
+                    db.deleteObjectStore(MUTATION_STORE);
+                    const store = createMutationStore();
+                    existing.result.forEach((mutation) => store.put(mutation));
+                };
+            };
+            request.onsuccess = () => {
+                // Step aside when a newer version of the app opens the database in another tab
+                request.result.onversionchange = () => {
+                    request.result.close();
+                    dbPromise = null;
+                };
+                resolve(request.result);
+            };
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry, e.g. after the user unblocks storage
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+}
+
+function runRequest<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    return openDatabase().then(
+        (db) =>
+            new Promise<T>((resolve, reject) => {
+                const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            })
+    );
+}
+
+// Response cache
+
+export function isCacheableRequest(url: string): boolean {
+    return /^\/api\/(projects|tasks)(\/|\?|$)/.test(url);
+}
+
+export async function getCachedResponse<T>(url: string): Promise<T | null> {
+    try {
+        const cached = await runRequest<T | undefined>(RESPONSE_STORE, "readonly", (store) =>
+            store.get(url)
+        );
+        return cached ?? null;
+    } catch {
+        return null;
+    }
+}
+
+export function cacheResponse(url: string, data: unknown): void {
+    runRequest(RESPONSE_STORE, "readwrite", (store) => store.put(data, url)).catch((error) => {
+        console.warn("[Offline] Failed to cache response:", error);
+    });
+}
+
+// Mutation queue
+
+export function getOfflineId(mutationId: string): string {
+    return `${OFFLINE_ID_PREFIX}${mutationId}`;
+}
+
+export function isOfflineId(id: string): boolean {
+    return id.startsWith(OFFLINE_ID_PREFIX);
+}
+
+/**
+ * The task or comment a mutation URL points at, or null for anything we don't queue
+ */
+export function getMutationTarget(url: string): MutationTarget | null {
+    const path = url.split("?")[0];
+
+    const taskMatch = path.match(/^\/api\/projects\/([^/]+)\/tasks(?:\/([^/]+))?$/);
+    if (taskMatch) return { resource: "task", parentId: taskMatch[1], id: taskMatch[2] };
+
+    const newCommentMatch = path.match(/^\/api\/tasks\/([^/]+)\/comments$/);
+    if (newCommentMatch) return { resource: "comment", parentId: newCommentMatch[1] };
+
+    const commentMatch = path.match(/^\/api\/comments\/([^/]+)$/);
+    if (commentMatch) return { resource: "comment", id: commentMatch[1] };
+
+    return null;
+}
+
+export function describeMutation(mutation: QueuedMutation): string {
+    const resource = getMutationTarget(mutation.url)?.resource ?? "change";
+    if (mutation.method === "POST") return `new ${resource}`;
+    if (mutation.method === "DELETE") return `${resource} deletion`;
+    return `${resource} update`;
+}
+
+function setQueue(next: QueuedMutation[]): void {
+    queue = next;
+    queueListeners.forEach((listener) => listener());
+}
+
+function setSyncing(next: boolean): void {
+    isSyncing = next;
+    queueListeners.forEach((listener) => listener());
+}
+
+async function readQueue(): Promise<QueuedMutation[]> {
+    const stored = await runRequest<QueuedMutation[]>(MUTATION_STORE, "readonly", (store) =>
+        store.getAll()
+    );
+    // Replayed mutations should still be recognised when their socket events arrive
+    stored.forEach((mutation) =>
+        trackMutationId(mutation.id, getUpdatedEntityId(mutation.url, mutation.method))
+    );
+    return stored;
+}
+
+function loadQueue(): Promise<void> {
+    if (!queueLoaded) {
+        queueLoaded = readQueue()
+            .then(setQueue)
+            .catch((error) => {
+                console.warn("[Offline] Failed to load queued mutations:", error);
+            });
+    }
+    return queueLoaded;
+}
+
+export function getQueuedMutations(): QueuedMutation[] {
+    return queue;
+}
+
+export function getIsSyncing(): boolean {
+    return isSyncing;
+}
+
+export function hasQueuedMutations(): boolean {
+    return queue.length > 0;
+}
+
+export function subscribeOfflineQueue(listener: () => void): () => void {
+    queueListeners.add(listener);
+    loadQueue();
+    return () => {
+        queueListeners.delete(listener);
+    };
+}
+
+/**
+ * Called with each newly queued mutation - there's no socket echo while offline,
+ * so subscribers apply the change locally
+ */
+export function subscribeMutationQueued(listener: (mutation: QueuedMutation) => void): () => void {
+    queuedListeners.add(listener);
+    return () => {
+        queuedListeners.delete(listener);
+    };
+}
+
+/**
+ * Called after a replay has sent at least one queued mutation, so subscribers can refetch
+ */
+export function subscribeQueueSynced(listener: (result: SyncResult) => void): () => void {
+    syncedListeners.add(listener);
+    return () => {
+        syncedListeners.delete(listener);
+    };
+}
+
+export async function enqueueMutation(mutation: {
+    id: string;
+    url: string;
+    method: QueuedMethod;
+    body?: string;
+    taskId?: string;
+}): Promise<QueuedMutation> {
+    await loadQueue();
+
+    const target = getMutationTarget(mutation.url);
+    const taskId =
+        mutation.taskId ??
+        (target?.resource === "task" ? target.id ?? getOfflineId(mutation.id) : target?.parentId);
+    const record: Omit<QueuedMutation, "sequence"> = { ...mutation, taskId, queuedAt: Date.now() };
+
+    const sequence = await runRequest(MUTATION_STORE, "readwrite", (store) => store.add(record));
+    const queued: QueuedMutation = { ...record, sequence: sequence as number };
+    setQueue([...queue, queued]);
+    queuedListeners.forEach((listener) => listener(queued));
+    return queued;
+}
+
+async function dequeueMutation(mutation: QueuedMutation): Promise<void> {
+    await runRequest(MUTATION_STORE, "readwrite", (store) => store.delete(mutation.sequence));
+    setQueue(queue.filter((m) => m.sequence !== mutation.sequence));
+}
+
+function replaceCreatedId(
+    mutation: QueuedMutation,
+    offlineId: string,
+    createdId: string
+): QueuedMutation {
+    return {
+        ...mutation,
+        url: mutation.url.replaceAll(offlineId, createdId),
+        body: mutation.body?.replaceAll(offlineId, createdId),
+        taskId: mutation.taskId?.replaceAll(offlineId, createdId),
+    };
+}
+
+/**
+ * Dequeues a replayed creation and, in the same transaction, points the changes queued
+ * behind it at the real ID - a replay that stops after this won't send the placeholder later
+ */
+async function dequeueCreation(mutation: QueuedMutation, createdId: string): Promise<void> {
+    const offlineId = getOfflineId(mutation.id);
+    const refersToCreated = (queued: QueuedMutation) =>
+        queued.url.includes(offlineId) ||
+        !!queued.body?.includes(offlineId) ||
+        queued.taskId === offlineId;
+
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(MUTATION_STORE, "readwrite");
+        const store = transaction.objectStore(MUTATION_STORE);
+        store.delete(mutation.sequence);
+        // Other tabs may have queued changes to it too, so go through the stored queue
+        const cursorRequest = store.openCursor();
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const queued = cursor.value as QueuedMutation;
+            if (refersToCreated(queued)) {
+                cursor.update(replaceCreatedId(queued, offlineId, createdId));
+            }
+            cursor.continue();
+        };
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+    setQueue(
+        queue
+            .filter((m) => m.sequence !== mutation.sequence)
+            .map((m) => (refersToCreated(m) ? replaceCreatedId(m, offlineId, createdId) : m))
+    );
+}
+
+/**
+ * Sends queued mutations in order. A rejected mutation is dropped and reported as a conflict;
+ * a network or gateway failure stops the replay and keeps the rest queued for next time.
+ * Returns null when there was nothing to do.
+ */
+export async function replayQueuedMutations(): Promise<SyncResult | null> {
+    if (isSyncing || !navigator.onLine) return null;
+    // Tabs take turns - one that waited finds the queue already sent
+    return navigator.locks ? navigator.locks.request(REPLAY_LOCK, replayQueue) : replayQueue();
+}
+
+async function replayQueue(): Promise<SyncResult | null> {
+    if (isSyncing) return null;
+    await loadQueue();
+    // Other tabs may have queued or sent mutations since this one last read the queue
+    try {
+        setQueue(await readQueue());
+    } catch (error) {
+        console.warn("[Offline] Failed to reload queued mutations:", error);
+    }
+    if (queue.length === 0) return null;
+
+    setSyncing(true);
+    const conflicts: SyncConflict[] = [];
+    let synced = 0;
+
+    try {
+        while (queue.length > 0) {
+            // Changes to things created offline already carry the real ID - see dequeueCreation
+            const mutation = queue[0];
+            const { url, body } = mutation;
+
+            // The session cookie authenticates the request, refreshed if it expired while offline
+            const headers: Record<string, string> = {
+                "Content-Type": "application/json",
+                [MUTATION_ID_HEADER]: mutation.id,
+            };
+
+            let response: Response;
+            try {
+                response = await fetchWithRefresh(url, { method: mutation.method, headers, body });
+            } catch {
+                break;
+            }
+            // Session couldn't be renewed or unreachable API - the rest stays queued
+            if (response.status === 401 || RETRYABLE_STATUSES.includes(response.status)) break;
+
+            const result = await response.json().catch(() => null);
+            if (response.ok) {
+                synced++;
+                const createdId = result?.task?._id ?? result?.comment?._id;
+                if (mutation.method === "POST" && createdId) {
+                    await dequeueCreation(mutation, createdId);
+                    continue;
+                }
+            } else {
+                conflicts.push({
+                    mutation,
+                    message:
+                        response.status === 404
+                            ? "It was deleted by someone else"
+                            : result?.message || "The server rejected the change",
+                });
+            }
+            await dequeueMutation(mutation);
+        }
+    } finally {
+        setSyncing(false);
+    }
+
+    const result: SyncResult = { synced, conflicts, remaining: queue.length };
+    if (synced > 0 || conflicts.length > 0) {
+        syncedListeners.forEach((listener) => listener(result));
+    }
+    return result;
+}
+
+/**
+ * Forgets cached responses and queued mutations - called on logout
+ */
+export async function clearOfflineData(): Promise<void> {
+    setQueue([]);
+    try {
+        await runRequest(RESPONSE_STORE, "readwrite", (store) => store.clear());
+        await runRequest(MUTATION_STORE, "readwrite", (store) => store.clear());
+    } catch (error) {
+        console.warn("[Offline] Failed to clear offline data:", error);
+    }
+}
@@ -0,0 +1,45 @@
+/**
+ * Page access rules shared by the proxy (server-side redirects) and the client-side auth guards
+ */
+
+// Pages that need a session - each also covers everything below it
+export const PROTECTED_PATHS = ["/projects", "/profile"];
+// Pages a logged-in user has no reason to see
+export const AUTH_PATHS = ["/login", "/signup"];
+
+export const DEFAULT_AUTHENTICATED_PATH = "/projects";
+
+export function matchesPath(pathname: string, paths: string[]): boolean {
+    return paths.some((path) => pathname === path || pathname.startsWith(`${path}/`));
+}
+
+// Control characters are stripped by the URL parser, so "/\t/evil.example" would become "//evil.example"
+const UNSAFE_REDIRECT_CHARS = /[\u0000-\u001f\u007f\\]/;
+
+/**
+ * Only same-origin paths are followed after login, so ?next= can't send users to another site
+ */
+export function getSafeRedirect(
+    next: string | null | undefined,
+    origin: string,
+    fallback: string = DEFAULT_AUTHENTICATED_PATH
+): string {
+    if (!next || !next.startsWith("/") || UNSAFE_REDIRECT_CHARS.test(next)) return fallback;
+
+    try {
+        const url = new URL(next, origin);
+        if (url.origin !== origin) return fallback;
+        return `${url.pathname}${url.search}${url.hash}`;
+    } catch {
+        return fallback;
+    }
+}
+
+// Client-side only - where to come back to after logging in again
+export function getCurrentPath(): string {
+    return `${window.location.pathname}${window.location.search}`;
+}
+
+export function getLoginUrl(next?: string): string {
+    return next ? `/login?next=${encodeURIComponent(next)}` : "/login";
+}
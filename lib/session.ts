@@ -0,0 +1,79 @@
+/**
+ * Client side of the session. The tokens are HttpOnly cookies, so this can't see them - it only
+ * asks the BFF to rotate them when a request comes back 401 and lets the socket know they changed.
+ */
+
+// Held while refreshing, so tabs take turns rather than racing a single-use refresh token
+const REFRESH_LOCK = "task-manager-session-refresh";
+// When any tab last refreshed - lets a tab that waited on the lock skip a refresh it no longer needs
+const REFRESHED_AT_KEY = "session-refreshed-at";
+
+let refreshPromise: Promise<boolean> | null = null;
+const refreshListeners = new Set<() => void>();
+
+async function requestRefresh(startedAt: number): Promise<boolean> {
+    const refreshedAt = Number(localStorage.getItem(REFRESHED_AT_KEY));
+    if (refreshedAt > startedAt) return true;
+
+    try {
+        const response = await fetch("/api/auth/refresh", { method: "POST" });
+        if (!response.ok) return false;
+        localStorage.setItem(REFRESHED_AT_KEY, String(Date.now()));
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Gets a new access token using the refresh-token cookie. Concurrent callers share one refresh;
+ * resolves to false once the session can't be renewed and the user has to log in again.
+ */
+export function refreshSession(): Promise<boolean> {
+    if (refreshPromise) return refreshPromise;
+
+    const startedAt = Date.now();
+    const refresh = navigator.locks
+        ? navigator.locks.request(REFRESH_LOCK, () => requestRefresh(startedAt))
+        : requestRefresh(startedAt);
+
+    refreshPromise = refresh
+        .then((refreshed) => {
+            if (refreshed) refreshListeners.forEach((listener) => listener());
+            return refreshed;
+        })
+        .finally(() => {
+            refreshPromise = null;
+        });
+    return refreshPromise;
+}
+
+/**
+ * Called after this tab refreshes the session
+ */
+export function subscribeSessionRefreshed(listener: () => void): () => void {
+    refreshListeners.add(listener);
+    return () => {
+        refreshListeners.delete(listener);
+    };
+}
+
+/**
+ * fetch() that refreshes an expired session and retries once before giving up with the 401
+ */
+export async function fetchWithRefresh(input: string, init?: RequestInit): Promise<Response> {
+    const response = await fetch(input, init);
+    if (response.status !== 401 || !(await refreshSession())) return response;
+    return fetch(input, init);
+}
+
+// The session cookie is HttpOnly, so the socket handshake carries a short-lived ticket from the BFF instead
+export async function fetchSocketTicket(): Promise<string | null> {
+    try {
+        const response = await fetchWithRefresh("/api/auth/socket-ticket", { method: "POST" });
+        const data = await response.json();
+        return response.ok && data.success ? data.ticket : null;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,256 @@
+/**
+ * Socket.IO event contract shared by lib/socket.ts and hooks/useSocket.ts.
+ * Incoming payloads are validated at runtime before they reach components.
+ */
+
+import type { Socket } from "socket.io-client";
+import { NotificationType, ProjectStatus, TaskPriority, TaskStatus } from "@/lib/enums";
+import type { Task } from "@/components/task-card";
+import type { Comment } from "@/components/task-comment";
+import type { Project, Member } from "@/components/project-card";
+import type { UserNotification } from "@/components/notification-center";
+
+// Payloads
+// Events caused by an HTTP mutation echo the client's X-Mutation-Id as mutationId
+
+export type PresenceScope = "project" | "task";
+export type PresenceStatus = "active" | "idle";
+
+export interface PresenceViewer {
+    userId: string;
+    name: string;
+    email: string;
+    status: PresenceStatus;
+}
+
+export interface TypingUser {
+    _id: string;
+    name: string;
+    email: string;
+}
+
+export interface TaskPayload {
+    task: Task;
+    mutationId?: string;
+}
+
+export interface TaskDeletePayload {
+    taskId: string;
+    // Project the task belonged to - lets tabs on other projects ignore the event
+    projectId?: string;
+    mutationId?: string;
+}
+
+export interface CommentPayload {
+    comment: Comment;
+    mutationId?: string;
+}
+
+export interface CommentDeletePayload {
+    commentId: string;
+    // Task the comment belonged to - lets tabs on other tasks ignore the event
+    taskId?: string;
+    mutationId?: string;
+}
+
+export interface CommentTypingPayload {
+    taskId: string;
+    user: TypingUser;
+    isTyping: boolean;
+}
+
+export interface ProjectPayload {
+    project: Project;
+    mutationId?: string;
+}
+
+export interface ProjectDeletePayload {
+    projectId: string;
+    mutationId?: string;
+}
+
+export interface MemberAddedPayload {
+    project: Project;
+    member: Member;
+    mutationId?: string;
+}
+
+export interface MemberRemovedPayload {
+    project: Project;
+    memberId: string;
+    mutationId?: string;
+}
+
+export interface NotificationPayload {
+    notification: UserNotification;
+}
+
+export interface PresenceStatePayload {
+    scope: PresenceScope;
+    id: string;
+    viewers: PresenceViewer[];
+}
+
+export interface PresencePayload {
+    scope: PresenceScope;
+    id: string;
+    status: PresenceStatus;
+}
+
+export interface MentionNotification {
+    userIds: string[];
+    projectId: string;
+    taskId: string;
+    commentId: string;
+}
+
+// Event maps
+
+export interface ServerToClientEvents {
+    "task:created": (payload: TaskPayload) => void;
+    "task:updated": (payload: TaskPayload) => void;
+    "task:deleted": (payload: TaskDeletePayload) => void;
+    "comment:created": (payload: CommentPayload) => void;
+    "comment:updated": (payload: CommentPayload) => void;
+    "comment:deleted": (payload: CommentDeletePayload) => void;
+    "comment:typing": (payload: CommentTypingPayload) => void;
+    "project:created": (payload: ProjectPayload) => void;
+    "project:updated": (payload: ProjectPayload) => void;
+    "project:deleted": (payload: ProjectDeletePayload) => void;
+    "member:added": (payload: MemberAddedPayload) => void;
+    "member:removed": (payload: MemberRemovedPayload) => void;
+    "notification:created": (payload: NotificationPayload) => void;
+    "presence:state": (payload: PresenceStatePayload) => void;
+}
+
+export interface ClientToServerEvents {
+    "join:project": (projectId: string) => void;
+    "leave:project": (projectId: string) => void;
+    "join:task": (taskId: string) => void;
+    "leave:task": (taskId: string) => void;
+    "join:user": (userId: string) => void;
+    "leave:user": (userId: string) => void;
+    "comment:typing": (payload: { taskId: string; isTyping: boolean }) => void;
+    "presence:join": (payload: PresencePayload) => void;
+    "presence:update": (payload: PresencePayload) => void;
+    "presence:leave": (payload: Omit<PresencePayload, "status">) => void;
+    "notify:mention": (payload: MentionNotification) => void;
+    // Swaps the connection over to a refreshed session without reconnecting
+    "auth:refresh": (payload: { ticket: string }) => void;
+}
+
+export type ServerEvent = keyof ServerToClientEvents;
+export type ServerEventPayload<E extends ServerEvent> = Parameters<ServerToClientEvents[E]>[0];
+
+export type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// Runtime validation - checks the fields components rely on, not every field
+
+type Guard<T> = (value: unknown) => value is T;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null;
+}
+
+function isString(value: unknown): value is string {
+    return typeof value === "string";
+}
+
+function isOptionalString(value: unknown): boolean {
+    return value === undefined || value === null || isString(value);
+}
+
+function isUserRef(value: unknown): value is { _id: string; name: string; email: string } {
+    return isObject(value) && isString(value._id) && isOptionalString(value.name) && isString(value.email);
+}
+
+const isTask: Guard<Task> = (value): value is Task =>
+    isObject(value) &&
+    isString(value._id) &&
+    isString(value.title) &&
+    isOptionalString(value.description) &&
+    isString(value.project) &&
+    Object.values(TaskStatus).includes(value.status as TaskStatus) &&
+    (value.priority === undefined ||
+        value.priority === null ||
+        Object.values(TaskPriority).includes(value.priority as TaskPriority)) &&
+    isUserRef(value.createdBy) &&
+    (value.assignee === undefined || value.assignee === null || isUserRef(value.assignee)) &&
+    isOptionalString(value.startDate) &&
+    isOptionalString(value.dueDate) &&
+    isString(value.createdAt) &&
+    isString(value.updatedAt);
+
+const isComment: Guard<Comment> = (value): value is Comment =>
+    isObject(value) &&
+    isString(value._id) &&
+    isString(value.content) &&
+    isString(value.task) &&
+    isOptionalString(value.parent) &&
+    isUserRef(value.createdBy) &&
+    isString(value.createdAt) &&
+    isString(value.updatedAt);
+
+const isMember: Guard<Member> = (value): value is Member =>
+    isObject(value) && isString(value._id) && isOptionalString(value.name) && isString(value.email);
+
+const isProject: Guard<Project> = (value): value is Project =>
+    isObject(value) &&
+    isString(value._id) &&
+    isString(value.name) &&
+    isOptionalString(value.description) &&
+    Object.values(ProjectStatus).includes(value.status as ProjectStatus) &&
+    Array.isArray(value.members) &&
+    value.members.every(isMember) &&
+    isUserRef(value.createdBy) &&
+    isString(value.createdAt) &&
+    isString(value.updatedAt);
+
+const isNotification: Guard<UserNotification> = (value): value is UserNotification =>
+    isObject(value) &&
+    isString(value._id) &&
+    Object.values(NotificationType).includes(value.type as NotificationType) &&
+    typeof value.read === "boolean" &&
+    isString(value.createdAt) &&
+    isUserRef(value.actor) &&
+    isObject(value.project) &&
+    isString(value.project._id);
+
+// Mutation events may carry the mutationId of the request that caused them
+function isMutation(value: unknown): value is Record<string, unknown> {
+    return isObject(value) && isOptionalString(value.mutationId);
+}
+
+const isPresenceViewer: Guard<PresenceViewer> = (value): value is PresenceViewer =>
+    isObject(value) &&
+    isString(value.userId) &&
+    isString(value.email) &&
+    (value.status === "active" || value.status === "idle");
+
+export const serverEventValidators: { [E in ServerEvent]: Guard<ServerEventPayload<E>> } = {
+    "task:created": (p): p is TaskPayload => isMutation(p) && isTask(p.task),
+    "task:updated": (p): p is TaskPayload => isMutation(p) && isTask(p.task),
+    "task:deleted": (p): p is TaskDeletePayload =>
+        isMutation(p) && isString(p.taskId) && isOptionalString(p.projectId),
+    "comment:created": (p): p is CommentPayload => isMutation(p) && isComment(p.comment),
+    "comment:updated": (p): p is CommentPayload => isMutation(p) && isComment(p.comment),
+    "comment:deleted": (p): p is CommentDeletePayload =>
+        isMutation(p) && isString(p.commentId) && isOptionalString(p.taskId),
+    "comment:typing": (p): p is CommentTypingPayload =>
+        isObject(p) && isString(p.taskId) && isUserRef(p.user) && typeof p.isTyping === "boolean",
+    "project:created": (p): p is ProjectPayload => isMutation(p) && isProject(p.project),
+    "project:updated": (p): p is ProjectPayload => isMutation(p) && isProject(p.project),
+    "project:deleted": (p): p is ProjectDeletePayload => isMutation(p) && isString(p.projectId),
+    "member:added": (p): p is MemberAddedPayload =>
+        isMutation(p) && isProject(p.project) && isMember(p.member),
+    "member:removed": (p): p is MemberRemovedPayload =>
+        isMutation(p) && isProject(p.project) && isString(p.memberId),
+    "notification:created": (p): p is NotificationPayload =>
+        isObject(p) && isNotification(p.notification),
+    "presence:state": (p): p is PresenceStatePayload =>
+        isObject(p) &&
+        (p.scope === "project" || p.scope === "task") &&
+        isString(p.id) &&
+        Array.isArray(p.viewers) &&
+        p.viewers.every(isPresenceViewer),
+};
@@ -1,58 +1,508 @@
 import { io, Socket } from "socket.io-client";
+import {
+    AppSocket,
+    ClientToServerEvents,
+    MentionNotification,
+    PresenceScope,
+    PresenceStatus,
+    ServerEvent,
+    ServerEventPayload,
+    serverEventValidators,
+} from "@/lib/socket-events";
+import { fetchSocketTicket, subscribeSessionRefreshed } from "@/lib/session";
 
 const SOCKET_URL = process.env.NEXT_PUBLIC_SOCKET_URL || "http://localhost:8000";
 
-let socket: Socket | null = null;
+// Only one tab - the leader - opens a socket.io connection. It relays server events to the other
+// tabs over a BroadcastChannel, and they send their rooms and emits back to it. Leadership is a
+// Web Lock, so when the leader tab closes the lock (and the connection) passes to another tab.
+const CHANNEL_NAME = "task-manager-socket";
+const LEADER_LOCK = "task-manager-socket-leader";
 
-export function getSocket(): Socket | null {
-    return socket;
+type ClientEvent = keyof ClientToServerEvents;
+
+type TabMessage =
+    // Leader -> followers
+    | { type: "event"; event: string; payload: unknown }
+    | { type: "state"; state: ConnectionState }
+    | { type: "reconnect" }
+    | { type: "leader" }
+    // Followers -> leader
+    | { type: "sync" }
+    | { type: "rooms"; tabId: string; rooms: string[] }
+    | { type: "presence"; tabId: string; presence: Record<string, PresenceStatus> }
+    | { type: "emit"; event: ClientEvent; args: unknown[] }
+    | { type: "closed"; tabId: string };
+
+let socket: AppSocket | null = null;
+let channel: BroadcastChannel | null = null;
+let tabId = "";
+let isLeader = false;
+let leadershipRequest: AbortController | null = null;
+let releaseLeadership: (() => void) | null = null;
+let unsubscribeSessionRefreshed: (() => void) | null = null;
+
+export type ConnectionState = "connecting" | "connected" | "reconnecting" | "disconnected";
+
+let connectionState: ConnectionState = "disconnected";
+let hasConnected = false;
+const connectionStateListeners = new Set<() => void>();
+const reconnectListeners = new Set<() => void>();
+const serverEventListeners = new Map<string, Set<(payload: unknown) => void>>();
+
+// Rooms joined by mounted hooks in this tab, ref-counted since several hooks can share a room.
+// Keys are "<type>:<id>", matching the "join:<type>" / "leave:<type>" events.
+const activeRooms = new Map<string, number>();
+// Leader only - rooms the other tabs need, and rooms the socket is actually in
+const remoteRooms = new Map<string, string[]>();
+const joinedRooms = new Set<string>();
+
+// Presence held by mounted hooks in this tab, ref-counted like rooms. Keys are "<scope>:<id>".
+const activePresence = new Map<string, { count: number; status: PresenceStatus }>();
+// Leader only - presence the other tabs hold, and what the server has been told
+const remotePresence = new Map<string, Record<string, PresenceStatus>>();
+const announcedPresence = new Map<string, PresenceStatus>();
+
+function postToTabs(message: TabMessage): void {
+    channel?.postMessage(message);
 }
 
-export function connectSocket(token: string): Socket {
-    if (socket?.connected) {
-        return socket;
-    }
+function setConnectionState(state: ConnectionState): void {
+    if (connectionState === state) return;
+    connectionState = state;
+    connectionStateListeners.forEach((listener) => listener());
+    if (isLeader) postToTabs({ type: "state", state });
+}
+
+function notifyReconnect(): void {
+    reconnectListeners.forEach((listener) => listener());
+}
+
+function dispatchServerEvent(event: string, payload: unknown): void {
+    serverEventListeners.get(event)?.forEach((listener) => listener(payload));
+}
 
+export function getConnectionState(): ConnectionState {
+    return connectionState;
+}
+
+export function subscribeConnectionState(listener: () => void): () => void {
+    connectionStateListeners.add(listener);
+    return () => {
+        connectionStateListeners.delete(listener);
+    };
+}
+
+/**
+ * Called after the socket reconnects and rooms are re-joined -
+ * events emitted while we were offline are lost, so subscribers should refetch
+ */
+export function subscribeReconnect(listener: () => void): () => void {
+    reconnectListeners.add(listener);
+    return () => {
+        reconnectListeners.delete(listener);
+    };
+}
+
+// Leader - owns the connection
+
+function openSocket(): void {
     socket = io(SOCKET_URL, {
-        auth: { token },
+        // Called for every connection attempt, so each reconnect gets a fresh ticket
+        auth: (callback) => {
+            fetchSocketTicket().then((ticket) => callback({ ticket }));
+        },
         transports: ["websocket", "polling"],
     });
+    setConnectionState("connecting");
+
+    // Every server event goes to this tab's listeners and to the other tabs
+    (socket as unknown as Socket).onAny((event: string, payload: unknown) => {
+        dispatchServerEvent(event, payload);
+        postToTabs({ type: "event", event, payload });
+    });
 
     socket.on("connect", () => {
         console.log("[Socket] Connected");
+        // A new connection starts out in no rooms
+        joinedRooms.clear();
+        syncRooms();
+        announcedPresence.clear();
+        syncPresence();
+        setConnectionState("connected");
+
+        // Also true for a tab taking over from a closed leader - events were missed in between
+        if (hasConnected) {
+            notifyReconnect();
+            postToTabs({ type: "reconnect" });
+        }
+        hasConnected = true;
     });
 
     socket.on("disconnect", (reason) => {
         console.log("[Socket] Disconnected:", reason);
+        if (reason === "io client disconnect") {
+            setConnectionState("disconnected");
+            return;
+        }
+        // socket.io doesn't retry when the server drops us (e.g. the session expired) - the
+        // handshake fetches a new ticket, refreshing the session first if it has to
+        if (reason === "io server disconnect") socket?.connect();
+        setConnectionState("reconnecting");
     });
 
     socket.on("connect_error", (error) => {
         console.error("[Socket] Connection error:", error.message);
+        if (hasConnected) setConnectionState("reconnecting");
+    });
+}
+
+function becomeLeader(): void {
+    console.log("[Socket] This tab now owns the connection");
+    isLeader = true;
+    // Followers re-send their rooms to the new leader
+    postToTabs({ type: "leader" });
+    openSocket();
+}
+
+// Joins and leaves rooms so the socket is in exactly the rooms some tab needs
+function syncRooms(): void {
+    if (!socket?.connected) return;
+
+    const wanted = new Set(activeRooms.keys());
+    remoteRooms.forEach((rooms) => rooms.forEach((key) => wanted.add(key)));
+
+    wanted.forEach((key) => {
+        if (joinedRooms.has(key)) return;
+        const [type, id] = key.split(":") as [RoomType, string];
+        socket?.emit(`join:${type}`, id);
+        joinedRooms.add(key);
+    });
+    joinedRooms.forEach((key) => {
+        if (wanted.has(key)) return;
+        const [type, id] = key.split(":") as [RoomType, string];
+        socket?.emit(`leave:${type}`, id);
+        joinedRooms.delete(key);
+    });
+}
+
+// Joins, updates and leaves presence so the server sees what the tabs together hold -
+// a user viewing a task in two tabs stays "active" until both have left
+function syncPresence(): void {
+    if (!socket?.connected) return;
+
+    const wanted = new Map<string, PresenceStatus>();
+    const want = (key: string, status: PresenceStatus) => {
+        // Active in any tab wins over idle in another
+        if (wanted.get(key) !== "active") wanted.set(key, status);
+    };
+    activePresence.forEach(({ status }, key) => want(key, status));
+    remotePresence.forEach((presence) => {
+        Object.entries(presence).forEach(([key, status]) => want(key, status));
+    });
+
+    wanted.forEach((status, key) => {
+        const announced = announcedPresence.get(key);
+        if (announced === status) return;
+        const [scope, id] = key.split(":") as [PresenceScope, string];
+        if (announced) {
+            socket?.emit("presence:update", { scope, id, status });
+        } else {
+            socket?.emit("presence:join", { scope, id, status });
+        }
+        announcedPresence.set(key, status);
+    });
+    announcedPresence.forEach((_, key) => {
+        if (wanted.has(key)) return;
+        const [scope, id] = key.split(":") as [PresenceScope, string];
+        socket?.emit("presence:leave", { scope, id });
+        announcedPresence.delete(key);
     });
+}
+
+// Followers - mirror the leader's connection
+
+function postRooms(): void {
+    postToTabs({ type: "rooms", tabId, rooms: [...activeRooms.keys()] });
+}
+
+function postPresence(): void {
+    const presence: Record<string, PresenceStatus> = {};
+    activePresence.forEach(({ status }, key) => {
+        presence[key] = status;
+    });
+    postToTabs({ type: "presence", tabId, presence });
+}
+
+function handleTabMessage(message: TabMessage): void {
+    if (isLeader) {
+        switch (message.type) {
+            case "sync":
+                postToTabs({ type: "state", state: connectionState });
+                break;
+            case "rooms":
+                remoteRooms.set(message.tabId, message.rooms);
+                syncRooms();
+                break;
+            case "presence":
+                remotePresence.set(message.tabId, message.presence);
+                syncPresence();
+                break;
+            case "closed":
+                remoteRooms.delete(message.tabId);
+                syncRooms();
+                remotePresence.delete(message.tabId);
+                syncPresence();
+                break;
+            case "emit":
+                (socket as unknown as Socket | null)?.emit(message.event, ...message.args);
+                break;
+        }
+        return;
+    }
+
+    switch (message.type) {
+        case "event":
+            dispatchServerEvent(message.event, message.payload);
+            break;
+        case "state":
+            if (message.state === "connected") hasConnected = true;
+            setConnectionState(message.state);
+            break;
+        case "reconnect":
+            notifyReconnect();
+            break;
+        case "leader":
+            postRooms();
+            postPresence();
+            break;
+    }
+}
 
-    return socket;
+function handlePageHide(): void {
+    if (isLeader) {
+        // Leave now rather than waiting for the socket to time out -
+        // the next leader re-joins whatever presence the other tabs still hold
+        announcedPresence.forEach((_, key) => {
+            const [scope, id] = key.split(":") as [PresenceScope, string];
+            socket?.emit("presence:leave", { scope, id });
+        });
+        announcedPresence.clear();
+        // Followers wait for the next leader's connection
+        postToTabs({ type: "state", state: "reconnecting" });
+    } else {
+        postToTabs({ type: "closed", tabId });
+    }
+}
+
+function emitToServer<E extends ClientEvent>(event: E, ...args: Parameters<ClientToServerEvents[E]>): void {
+    if (isLeader) {
+        (socket as unknown as Socket | null)?.emit(event, ...args);
+    } else {
+        postToTabs({ type: "emit", event, args });
+    }
+}
+
+// An open connection outlives the access token it was opened with - hand the server a ticket
+// for the refreshed session rather than reconnecting and refetching everything
+async function reauthenticateSocket(): Promise<void> {
+    const ticket = await fetchSocketTicket();
+    if (ticket && (socket || channel)) emitToServer("auth:refresh", { ticket });
+}
+
+export function connectSocket(): void {
+    // Already connected, or following another tab's connection
+    if (socket || channel) return;
+
+    unsubscribeSessionRefreshed = subscribeSessionRefreshed(reauthenticateSocket);
+
+    // Without cross-tab support every tab keeps its own connection
+    if (typeof BroadcastChannel === "undefined" || !navigator.locks) {
+        isLeader = true;
+        openSocket();
+        return;
+    }
+
+    tabId = crypto.randomUUID();
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<TabMessage>) => handleTabMessage(event.data);
+    window.addEventListener("pagehide", handlePageHide);
+
+    setConnectionState("connecting");
+    postToTabs({ type: "sync" });
+    postRooms();
+    postPresence();
+
+    // Granted right away if no other tab leads, otherwise once the leader closes
+    leadershipRequest = new AbortController();
+    navigator.locks
+        .request(LEADER_LOCK, { signal: leadershipRequest.signal }, () => {
+            becomeLeader();
+            // Hold the lock until this tab closes or logs out
+            return new Promise<void>((resolve) => {
+                releaseLeadership = resolve;
+            });
+        })
+        .catch(() => {
+            // Aborted by disconnectSocket
+        });
 }
 
 export function disconnectSocket(): void {
+    handlePageHide();
+    isLeader = false;
+    unsubscribeSessionRefreshed?.();
+    unsubscribeSessionRefreshed = null;
+
     if (socket) {
         socket.disconnect();
         socket = null;
     }
+    leadershipRequest?.abort();
+    leadershipRequest = null;
+    releaseLeadership?.();
+    releaseLeadership = null;
+    if (channel) {
+        channel.close();
+        channel = null;
+    }
+    window.removeEventListener("pagehide", handlePageHide);
+
+    remoteRooms.clear();
+    joinedRooms.clear();
+    remotePresence.clear();
+    announcedPresence.clear();
+    hasConnected = false;
+    setConnectionState("disconnected");
+}
+
+/**
+ * Subscribes to a server event, dropping (and reporting) payloads that don't match
+ * the event contract so a malformed event can't crash the components listening to it.
+ * Works the same whether this tab owns the connection or follows another tab's.
+ */
+export function onServerEvent<E extends ServerEvent>(
+    event: E,
+    handler: (payload: ServerEventPayload<E>) => void
+): () => void {
+    const isValid = serverEventValidators[event];
+    const listener = (payload: unknown) => {
+        if (!isValid(payload)) {
+            console.warn(`[Socket] Dropped malformed "${event}" event`, payload);
+            return;
+        }
+        handler(payload);
+    };
+
+    let listeners = serverEventListeners.get(event);
+    if (!listeners) {
+        listeners = new Set();
+        serverEventListeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
 }
 
 // Room management
+type RoomType = "project" | "task" | "user";
+
+function joinRoom(type: RoomType, id: string): void {
+    const key = `${type}:${id}`;
+    const count = activeRooms.get(key) ?? 0;
+    activeRooms.set(key, count + 1);
+    if (count === 0) handleRoomsChanged();
+}
+
+function leaveRoom(type: RoomType, id: string): void {
+    const key = `${type}:${id}`;
+    const count = activeRooms.get(key) ?? 0;
+    if (count > 1) {
+        activeRooms.set(key, count - 1);
+        return;
+    }
+    activeRooms.delete(key);
+    handleRoomsChanged();
+}
+
+// The leader syncs its socket (or does so on connect); followers hand their rooms to the leader
+function handleRoomsChanged(): void {
+    if (isLeader) {
+        syncRooms();
+    } else {
+        postRooms();
+    }
+}
+
 export function joinProjectRoom(projectId: string): void {
-    socket?.emit("join:project", projectId);
+    joinRoom("project", projectId);
 }
 
 export function leaveProjectRoom(projectId: string): void {
-    socket?.emit("leave:project", projectId);
+    leaveRoom("project", projectId);
 }
 
 export function joinTaskRoom(taskId: string): void {
-    socket?.emit("join:task", taskId);
+    joinRoom("task", taskId);
 }
 
 export function leaveTaskRoom(taskId: string): void {
-    socket?.emit("leave:task", taskId);
+    leaveRoom("task", taskId);
+}
+
+// Per-user room for notifications addressed to the current user
+export function joinUserRoom(userId: string): void {
+    joinRoom("user", userId);
+}
+
+export function leaveUserRoom(userId: string): void {
+    leaveRoom("user", userId);
+}
+
+// Typing indicators for a task's comment thread
+export function emitCommentTyping(taskId: string, isTyping: boolean): void {
+    emitToServer("comment:typing", { taskId, isTyping });
+}
+
+// Presence - who is currently viewing a project or task
+
+function handlePresenceChanged(): void {
+    if (isLeader) {
+        syncPresence();
+    } else {
+        postPresence();
+    }
+}
+
+export function joinPresence(scope: PresenceScope, id: string, status: PresenceStatus): void {
+    const key = `${scope}:${id}`;
+    const count = activePresence.get(key)?.count ?? 0;
+    activePresence.set(key, { count: count + 1, status });
+    handlePresenceChanged();
+}
+
+export function updatePresence(scope: PresenceScope, id: string, status: PresenceStatus): void {
+    const held = activePresence.get(`${scope}:${id}`);
+    if (!held || held.status === status) return;
+    held.status = status;
+    handlePresenceChanged();
+}
+
+// The server only hears about the leave once no tab holds this presence any more
+export function leavePresence(scope: PresenceScope, id: string): void {
+    const key = `${scope}:${id}`;
+    const count = activePresence.get(key)?.count ?? 0;
+    if (count > 1) {
+        activePresence.set(key, { ...activePresence.get(key)!, count: count - 1 });
+        return;
+    }
+    activePresence.delete(key);
+    handlePresenceChanged();
+}
+
+// Notifications
+
+export function emitMentionNotification(notification: MentionNotification): void {
+    emitToServer("notify:mention", notification);
 }
@@ -0,0 +1,60 @@
+/**
+ * Helpers for task start & due dates
+ *
+ * Task dates are calendar days: they're sent to the API as YYYY-MM-DD and
+ * compared by their date part, so they don't shift with the viewer's timezone.
+ */
+
+import { TaskStatus } from "@/lib/enums";
+import type { Task } from "@/components/task-card";
+
+const DUE_SOON_DAYS = 2;
+
+export type DueState = "overdue" | "due-soon" | "upcoming";
+
+/** YYYY-MM-DD for an API date string, or "" when unset */
+export function toDayKey(dateString?: string | null): string {
+    return dateString ? dateString.slice(0, 10) : "";
+}
+
+/** YYYY-MM-DD for a local Date */
+export function dateToDayKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Local Date at midnight for a YYYY-MM-DD key */
+export function dayKeyToDate(dayKey: string): Date {
+    const [year, month, day] = dayKey.split("-").map(Number);
+    return new Date(year, month - 1, day);
+}
+
+export function addDays(dayKey: string, days: number): string {
+    const date = dayKeyToDate(dayKey);
+    date.setDate(date.getDate() + days);
+    return dateToDayKey(date);
+}
+
+export function daysBetween(fromKey: string, toKey: string): number {
+    const msPerDay = 1000 * 60 * 60 * 24;
+    return Math.round((dayKeyToDate(toKey).getTime() - dayKeyToDate(fromKey).getTime()) / msPerDay);
+}
+
+export function formatDayKey(dayKey: string): string {
+    return dayKeyToDate(dayKey).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+    });
+}
+
+/** Overdue / due-soon state for open tasks with a due date */
+export function getDueState(task: Task): DueState | null {
+    const dueKey = toDayKey(task.dueDate);
+    if (!dueKey || task.status === TaskStatus.CLOSED) return null;
+
+    const daysLeft = daysBetween(dateToDayKey(new Date()), dueKey);
+    if (daysLeft < 0) return "overdue";
+    if (daysLeft <= DUE_SOON_DAYS) return "due-soon";
+    return "upcoming";
+}
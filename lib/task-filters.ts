@@ -0,0 +1,194 @@
+/**
+ * Task list filter & sort state shared by the project page and the tasks API route
+ */
+
+import { TaskStatus, TaskPriority } from "@/lib/enums";
+import { dateToDayKey } from "@/lib/task-dates";
+import type { Task } from "@/components/task-card";
+
+export interface TaskFilters {
+    q: string;
+    status: TaskStatus | "ALL";
+    priority: TaskPriority | "ALL";
+    // "me" and "unassigned" are resolved against the current user when querying
+    assignee: string;
+    createdBy: string;
+    createdFrom: string;
+    createdTo: string;
+    updatedFrom: string;
+    updatedTo: string;
+    sortBy: "createdAt" | "updatedAt" | "title" | "status" | "priority";
+    sortOrder: "asc" | "desc";
+}
+
+export const defaultTaskFilters: TaskFilters = {
+    q: "",
+    status: "ALL",
+    priority: "ALL",
+    assignee: "ALL",
+    createdBy: "ALL",
+    createdFrom: "",
+    createdTo: "",
+    updatedFrom: "",
+    updatedTo: "",
+    sortBy: "createdAt",
+    sortOrder: "desc",
+};
+
+// Query params accepted by GET /api/projects/[id]/tasks (besides limit & cursor)
+export const TASK_FILTER_PARAMS = [
+    "q",
+    "status",
+    "priority",
+    "assignee",
+    "createdBy",
+    "createdFrom",
+    "createdTo",
+    "updatedFrom",
+    "updatedTo",
+    "sortBy",
+    "sortOrder",
+] as const;
+
+const SORT_FIELDS: TaskFilters["sortBy"][] = ["createdAt", "updatedAt", "title", "status", "priority"];
+
+export function parseTaskFilters(params: URLSearchParams): TaskFilters {
+    const status = params.get("status");
+    const priority = params.get("priority");
+    const sortBy = params.get("sortBy");
+
+    return {
+        q: params.get("q") || "",
+        status: Object.values(TaskStatus).includes(status as TaskStatus)
+            ? (status as TaskStatus)
+            : "ALL",
+        priority: Object.values(TaskPriority).includes(priority as TaskPriority)
+            ? (priority as TaskPriority)
+            : "ALL",
+        assignee: params.get("assignee") || "ALL",
+        createdBy: params.get("createdBy") || "ALL",
+        createdFrom: params.get("createdFrom") || "",
+        createdTo: params.get("createdTo") || "",
+        updatedFrom: params.get("updatedFrom") || "",
+        updatedTo: params.get("updatedTo") || "",
+        sortBy: SORT_FIELDS.includes(sortBy as TaskFilters["sortBy"])
+            ? (sortBy as TaskFilters["sortBy"])
+            : "createdAt",
+        sortOrder: params.get("sortOrder") === "asc" ? "asc" : "desc",
+    };
+}
+
+/**
+ * Writes non-default filters into params. Pass userId to resolve "me" for the API;
+ * omit it to keep "me" as-is for shareable page URLs.
+ */
+export function applyTaskFilters(
+    params: URLSearchParams,
+    filters: TaskFilters,
+    userId?: string
+): URLSearchParams {
+    TASK_FILTER_PARAMS.forEach((key) => params.delete(key));
+
+    const resolveUser = (value: string) => (userId && value === "me" ? userId : value);
+
+    if (filters.q.trim()) params.set("q", filters.q.trim());
+    if (filters.status !== "ALL") params.set("status", filters.status);
+    if (filters.priority !== "ALL") params.set("priority", filters.priority);
+    if (filters.assignee !== "ALL") params.set("assignee", resolveUser(filters.assignee));
+    if (filters.createdBy !== "ALL") params.set("createdBy", resolveUser(filters.createdBy));
+    if (filters.createdFrom) params.set("createdFrom", filters.createdFrom);
+    if (filters.createdTo) params.set("createdTo", filters.createdTo);
+    if (filters.updatedFrom) params.set("updatedFrom", filters.updatedFrom);
+    if (filters.updatedTo) params.set("updatedTo", filters.updatedTo);
+    if (filters.sortBy !== "createdAt") params.set("sortBy", filters.sortBy);
+    if (filters.sortOrder !== "desc") params.set("sortOrder", filters.sortOrder);
+
+    return params;
+}
+
+export function countActiveTaskFilters(filters: TaskFilters): number {
+    return (
+        (filters.status !== "ALL" ? 1 : 0) +
+        (filters.priority !== "ALL" ? 1 : 0) +
+        (filters.assignee !== "ALL" ? 1 : 0) +
+        (filters.createdBy !== "ALL" ? 1 : 0) +
+        (filters.createdFrom || filters.createdTo ? 1 : 0) +
+        (filters.updatedFrom || filters.updatedTo ? 1 : 0) +
+        (filters.sortBy !== "createdAt" || filters.sortOrder !== "desc" ? 1 : 0)
+    );
+}
+
+function isWithinRange(dateString: string, from: string, to: string): boolean {
+    // Range bounds are local YYYY-MM-DD values from date inputs, so compare the timestamp's
+    // local day too - its UTC date can be a day off near midnight
+    const day = dateToDayKey(new Date(dateString));
+    if (from && day < from) return false;
+    if (to && day > to) return false;
+    return true;
+}
+
+/**
+ * Client-side mirror of the server filters, used to decide whether
+ * real-time task events belong in the current list
+ */
+export function matchesTaskFilters(task: Task, filters: TaskFilters, userId?: string): boolean {
+    const resolveUser = (value: string) => (value === "me" ? userId : value);
+
+    if (filters.q.trim()) {
+        const query = filters.q.trim().toLowerCase();
+        if (
+            !task.title.toLowerCase().includes(query) &&
+            !task.description?.toLowerCase().includes(query)
+        ) {
+            return false;
+        }
+    }
+    if (filters.status !== "ALL" && task.status !== filters.status) return false;
+    if (filters.priority !== "ALL" && (task.priority || TaskPriority.NONE) !== filters.priority) {
+        return false;
+    }
+    if (filters.assignee === "unassigned") {
+        if (task.assignee) return false;
+    } else if (filters.assignee !== "ALL" && task.assignee?._id !== resolveUser(filters.assignee)) {
+        return false;
+    }
+    if (filters.createdBy !== "ALL" && task.createdBy?._id !== resolveUser(filters.createdBy)) {
+        return false;
+    }
+    if (!isWithinRange(task.createdAt, filters.createdFrom, filters.createdTo)) return false;
+    if (!isWithinRange(task.updatedAt, filters.updatedFrom, filters.updatedTo)) return false;
+    return true;
+}
+
+const statusOrder = [TaskStatus.OPEN, TaskStatus.IN_PROGRESS, TaskStatus.ON_HOLD, TaskStatus.CLOSED];
+
+// Least to most urgent, so "desc" puts urgent tasks first
+const priorityOrder = [
+    TaskPriority.NONE,
+    TaskPriority.LOW,
+    TaskPriority.MEDIUM,
+    TaskPriority.HIGH,
+    TaskPriority.URGENT,
+];
+
+export function comparePriority(a?: TaskPriority, b?: TaskPriority): number {
+    return priorityOrder.indexOf(a || TaskPriority.NONE) - priorityOrder.indexOf(b || TaskPriority.NONE);
+}
+
+export function compareTasks(a: Task, b: Task, filters: TaskFilters): number {
+    let result: number;
+    switch (filters.sortBy) {
+        case "title":
+            result = a.title.localeCompare(b.title);
+            break;
+        case "status":
+            result = statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status);
+            break;
+        case "priority":
+            result = comparePriority(a.priority, b.priority);
+            break;
+        default:
+            result = a[filters.sortBy].localeCompare(b[filters.sortBy]);
+    }
+    return filters.sortOrder === "asc" ? result : -result;
+}
@@ -0,0 +1,237 @@
+/**
+ * The BFF's one way of talking to the backend API (server-side). Routes describe the upstream
+ * call; this adds the session token, request ID and timeout, and maps every failure onto the
+ * same `{ success, message, code }` envelope the client already expects.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ACCESS_TOKEN_KEY } from "@/lib/cookies";
+import { getMutationIdHeader } from "@/lib/mutations";
+
+const API_BASE_URL = process.env.API_BASE_URL || "http://localhost:8000/api/v1";
+const UPSTREAM_TIMEOUT_MS = Number(process.env.UPSTREAM_TIMEOUT_MS) || 10_000;
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+export type ProxyErrorCode =
+    | "BAD_REQUEST"
+    | "UNAUTHORIZED"
+    | "FORBIDDEN"
+    | "NOT_FOUND"
+    | "CONFLICT"
+    | "UPSTREAM_ERROR"
+    | "UPSTREAM_UNAVAILABLE"
+    | "UPSTREAM_TIMEOUT"
+    | "BAD_UPSTREAM_RESPONSE"
+    | "BACKEND_WAKING"
+    | "INTERNAL_ERROR";
+
+export class ProxyError extends Error {
+    constructor(
+        public status: number,
+        public code: ProxyErrorCode,
+        message: string
+    ) {
+        super(message);
+        this.name = "ProxyError";
+    }
+}
+
+export interface UpstreamRequest {
+    // Relative to API_BASE_URL, e.g. `/projects/${id}`
+    path: string;
+    method?: "GET" | "POST" | "PATCH" | "DELETE";
+    query?: URLSearchParams;
+    body?: unknown;
+    // Sends the incoming request's JSON body on unchanged
+    forwardBody?: boolean;
+    // Login, signup and refresh run before there is a session
+    auth?: boolean;
+    timeoutMs?: number;
+}
+
+export interface UpstreamResponse {
+    status: number;
+    data: Record<string, unknown>;
+}
+
+// One ID per incoming request, shared by its upstream calls, logs and response
+const requestIds = new WeakMap<NextRequest, string>();
+
+function getRequestId(request: NextRequest): string {
+    let requestId = requestIds.get(request);
+    if (!requestId) {
+        requestId = request.headers.get(REQUEST_ID_HEADER) || crypto.randomUUID();
+        requestIds.set(request, requestId);
+    }
+    return requestId;
+}
+
+// One JSON object per line, so log tooling can filter by requestId or route
+function log(level: "info" | "error", fields: Record<string, unknown>): void {
+    const line = JSON.stringify({ level, time: new Date().toISOString(), ...fields });
+    if (level === "error") {
+        console.error(line);
+    } else {
+        console.log(line);
+    }
+}
+
+function getErrorCode(status: number): ProxyErrorCode {
+    switch (status) {
+        case 400:
+            return "BAD_REQUEST";
+        case 401:
+            return "UNAUTHORIZED";
+        case 403:
+            return "FORBIDDEN";
+        case 404:
+            return "NOT_FOUND";
+        case 409:
+            return "CONFLICT";
+        default:
+            return status >= 500 ? "UPSTREAM_ERROR" : "BAD_REQUEST";
+    }
+}
+
+export function errorResponse(status: number, code: ProxyErrorCode, message: string): NextResponse {
+    return NextResponse.json({ success: false, message, code }, { status });
+}
+
+/**
+ * Session token from the Authorization header or the HttpOnly cookie
+ */
+export function getAccessToken(request: NextRequest): string | undefined {
+    return (
+        request.headers.get("Authorization")?.replace("Bearer ", "") ||
+        request.cookies.get(ACCESS_TOKEN_KEY)?.value
+    );
+}
+
+export async function readJsonBody(request: NextRequest): Promise<Record<string, unknown>> {
+    try {
+        return await request.json();
+    } catch {
+        throw new ProxyError(400, "BAD_REQUEST", "Request body must be valid JSON");
+    }
+}
+
+/**
+ * Calls the backend and returns its status and JSON body. Throws a ProxyError when there's
+ * no session, the backend is unreachable or slow, or it answers with something other than JSON.
+ */
+export async function fetchUpstream(
+    request: NextRequest,
+    options: UpstreamRequest
+): Promise<UpstreamResponse> {
+    const { path, method = "GET", query, auth = true, timeoutMs = UPSTREAM_TIMEOUT_MS } = options;
+    const requestId = getRequestId(request);
+
+    const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        [REQUEST_ID_HEADER]: requestId,
+        ...getMutationIdHeader(request),
+    };
+    if (auth) {
+        const token = getAccessToken(request);
+        if (!token) throw new ProxyError(401, "UNAUTHORIZED", "Access denied. No token provided.");
+        headers.Authorization = `Bearer ${token}`;
+    }
+
+    const body = options.forwardBody ? await readJsonBody(request) : options.body;
+    const search = query?.toString();
+    const url = `${API_BASE_URL}${path}${search ? `?${search}` : ""}`;
+    const startedAt = Date.now();
+
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method,
+            headers,
+            body: body === undefined ? undefined : JSON.stringify(body),
+            signal: AbortSignal.timeout(timeoutMs),
+        });
+    } catch (error) {
+        const timedOut = error instanceof DOMException && error.name === "TimeoutError";
+        log("error", {
+            event: "upstream",
+            requestId,
+            method,
+            path,
+            durationMs: Date.now() - startedAt,
+            error: timedOut ? "timeout" : String(error),
+        });
+        throw timedOut
+            ? new ProxyError(504, "UPSTREAM_TIMEOUT", "The server took too long to respond")
+            : new ProxyError(502, "UPSTREAM_UNAVAILABLE", "Could not reach the server");
+    }
+
+    log(response.ok ? "info" : "error", {
+        event: "upstream",
+        requestId,
+        method,
+        path,
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+    });
+
+    // An empty body (e.g. 204) is fine; an HTML error page from a gateway is not
+    const text = await response.text();
+    let data: Record<string, unknown>;
+    try {
+        data = text ? JSON.parse(text) : { success: response.ok };
+    } catch {
+        // Keep a gateway's own 5xx (e.g. 503 while the backend starts) - it says more than 502
+        const status = response.status >= 500 ? response.status : 502;
+        throw new ProxyError(status, "BAD_UPSTREAM_RESPONSE", "The server sent an invalid response");
+    }
+
+    if (!response.ok && data.success !== true) {
+        data = {
+            ...data,
+            success: false,
+            message: data.message || "An error occurred",
+            code: data.code || getErrorCode(response.status),
+        };
+    }
+    return { status: response.status, data };
+}
+
+/**
+ * Runs a route handler, turning thrown errors into the error envelope and tagging
+ * the response with the request ID
+ */
+export async function handleRoute(
+    request: NextRequest,
+    route: string,
+    handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+    const requestId = getRequestId(request);
+    let response: NextResponse;
+    try {
+        response = await handler();
+    } catch (error) {
+        if (error instanceof ProxyError) {
+            response = errorResponse(error.status, error.code, error.message);
+        } else {
+            log("error", { event: "route", requestId, route, error: String(error) });
+            response = errorResponse(500, "INTERNAL_ERROR", "Internal server error");
+        }
+    }
+    response.headers.set(REQUEST_ID_HEADER, requestId);
+    return response;
+}
+
+/**
+ * The common case - forwards the request upstream and passes the answer straight back
+ */
+export function proxyRequest(
+    request: NextRequest,
+    route: string,
+    options: UpstreamRequest
+): Promise<NextResponse> {
+    return handleRoute(request, route, async () => {
+        const { status, data } = await fetchUpstream(request, options);
+        return NextResponse.json(data, { status });
+    });
+}
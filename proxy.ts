@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ACCESS_TOKEN_KEY, SESSION_MARKER_KEY } from "@/lib/cookies";
+import {
+    AUTH_PATHS,
+    PROTECTED_PATHS,
+    getLoginUrl,
+    getSafeRedirect,
+    matchesPath,
+} from "@/lib/routes";
+
+/**
+ * Route protection (Next.js middleware) - redirects before any protected page is rendered or
+ * downloaded. It only checks that session cookies exist; the API still validates the token,
+ * and the client-side guards catch sessions that turn out to be invalid.
+ */
+export function proxy(request: NextRequest) {
+    const { pathname, search } = request.nextUrl;
+    // An expired access cookie isn't the end of the session - the client refreshes it on first 401
+    const hasSession =
+        request.cookies.has(ACCESS_TOKEN_KEY) || request.cookies.has(SESSION_MARKER_KEY);
+
+    if (!hasSession && matchesPath(pathname, PROTECTED_PATHS)) {
+        return NextResponse.redirect(new URL(getLoginUrl(`${pathname}${search}`), request.url));
+    }
+
+    if (hasSession && matchesPath(pathname, AUTH_PATHS)) {
+        const next = getSafeRedirect(
+            request.nextUrl.searchParams.get("next"),
+            request.nextUrl.origin
+        );
+        return NextResponse.redirect(new URL(next, request.url));
+    }
+
+    return NextResponse.next();
+}
+
+export const config = {
+    matcher: ["/projects/:path*", "/profile/:path*", "/login", "/signup"],
+};